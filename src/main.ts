@@ -1,19 +1,41 @@
 import { App, Menu, Notice, Plugin, TFile, TFolder } from "obsidian";
-import { AIExcerptPlugin, AIExcerptSettings } from "./types";
+import {
+	AIExcerptPlugin,
+	AIExcerptSettings,
+	ProcessFileResult,
+	PromptType,
+	RunEstimate,
+	TASK_NOUNS,
+} from "./types";
 import { DEFAULT_SETTINGS, AIExcerptSettingTab } from "./settings";
 import { GenerateAllModal } from "./modals/generate-all-modal";
 import { SelectDirectoryModal } from "./modals/select-directory-modal";
 import { CommandsModal } from "./modals/commands-modal";
+import { RunConfirmationModal } from "./modals/run-confirmation-modal";
+import { SuggestionPreviewModal } from "./modals/suggestion-preview-modal";
+import { TagReviewModal } from "./modals/tag-review-modal";
+import { SelectRunModal } from "./modals/select-run-modal";
 import { FileProcessor } from "./services/file-processor";
 import { Prompts } from "./utils/prompts";
 import { ProviderFactory } from "./providers/provider-factory";
 import { TagUtils } from "./utils/tag-utils";
+import { CircuitState } from "./providers/circuit-breaker";
+import { UsageLedger } from "./services/usage-ledger";
+import { JournalRun, RunJournal } from "./services/run-journal";
+import { TagIndex } from "./services/tag-index";
+import { BulkJob, JobManager } from "./services/job-manager";
+import { AutoTagger } from "./services/auto-tagger";
+import { ModelCatalog } from "./services/model-catalog";
+import { ReplayFixtures } from "./providers/replay-provider";
+import { Pricing } from "./utils/pricing";
+import { ProposalUtils } from "./utils/proposal-utils";
+import { RateLimiter } from "./providers/rate-limiter";
 
 /**
  * AI Tag Generator Plugin
  *
  * This plugin automatically generates relevant tags for markdown files in Obsidian
- * using AI models (Claude or OpenAI). It adds or updates the tags field in frontmatter.
+ * using AI models (Claude, OpenAI or a local Ollama server). It adds or updates the tags field in frontmatter.
  *
  * The plugin provides multiple ways to process files:
  * - Current file only
@@ -25,6 +47,14 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 	settings: AIExcerptSettings;
 	fileProcessor: FileProcessor | null;
 	statusBarItem: HTMLElement | null = null;
+	private progress = {
+		processed: 0,
+		total: 0,
+		task: PromptType.TAG_GENERATION,
+	};
+	// The bulk job being run, if any
+	private currentJob: BulkJob | null = null;
+	private autoTagger: AutoTagger | null = null;
 
 	/**
 	 * Initializes the plugin, loads settings, and registers commands and UI elements
@@ -37,10 +67,15 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 		// Initialize the status bar item
 		this.statusBarItem = this.addStatusBarItem();
 		this.updateStatusBar(0, 0);
+		// Clicking the status bar pauses, resumes or cancels the bulk job
+		this.statusBarItem.addClass("mod-clickable");
+		this.registerDomEvent(this.statusBarItem, "click", (evt) =>
+			this.showJobMenu(evt)
+		);
 
 		// Initialize the prompt system
 		try {
-			Prompts.initialize(this.app);
+			Prompts.initialize(this.app, this.pluginDir);
 
 			// Load all prompts into memory
 			try {
@@ -68,9 +103,47 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 			);
 		}
 
+		// Load the token usage ledger
+		await UsageLedger.initialize(this.app.vault.adapter, this.pluginDir);
+
+		// Load the journal of tagging runs that can be rolled back
+		await RunJournal.initialize(this.app.vault.adapter, this.pluginDir);
+
+		// Load what each note was last tagged from, and keep it in step
+		// with renames and deletions
+		await TagIndex.initialize(this.app.vault.adapter, this.pluginDir);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) =>
+				TagIndex.rename(oldPath, file.path)
+			)
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => TagIndex.remove(file.path))
+		);
+
+		// Load the queue of bulk jobs, including any interrupted by closing
+		// Obsidian
+		await JobManager.initialize(this.app.vault.adapter, this.pluginDir);
+		JobManager.onChange(() =>
+			this.updateStatusBar(
+				this.progress.processed,
+				this.progress.total,
+				this.progress.task
+			)
+		);
+
+		// Point record/replay at the plugin's fixtures folder
+		ReplayFixtures.initialize(this.app.vault.adapter, this.pluginDir);
+
+		// Load the cached model lists used by the settings tab
+		await ModelCatalog.initialize(this.app.vault.adapter, this.pluginDir);
+
 		// Initialize the provider factory
 		try {
 			ProviderFactory.initialize();
+			ProviderFactory.onCircuitStateChange((label, state, previous) =>
+				this.handleCircuitStateChange(label, state, previous)
+			);
 		} catch (error) {
 			console.error("Error initializing provider factory:", error);
 		}
@@ -83,6 +156,27 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 			this
 		);
 
+		// Tag new and edited notes when enabled in settings
+		this.autoTagger = new AutoTagger(
+			this.app,
+			this.settings,
+			() => this.fileProcessor
+		);
+
+		// Resume the queued jobs and start auto-tagging once the vault is
+		// ready
+		this.app.workspace.onLayoutReady(() => {
+			this.autoTagger?.register(this);
+
+			const job = JobManager.getActive();
+			if (job && job.state !== "paused") {
+				new Notice(
+					`Resuming bulk job at ${job.position}/${job.files.length} files${job.scope}`
+				);
+			}
+			this.runJobs();
+		});
+
 		// Add ribbon icon for the plugin
 		this.addRibbonIcon("tag", "AI Tag Commands", () => {
 			new CommandsModal(this.app, this).open();
@@ -112,7 +206,11 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 				const activeFile = this.app.workspace.getActiveFile();
 				if (activeFile && activeFile.parent) {
 					if (!checking) {
-						this.processDirectory(activeFile.parent);
+						RunConfirmationModal.forDirectory(
+							this.app,
+							this,
+							activeFile.parent
+						).open();
 					}
 					return true;
 				}
@@ -138,6 +236,277 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 			},
 		});
 
+		// Add command to apply an edited dry-run proposal
+		this.addCommand({
+			id: "apply-tag-proposal",
+			name: "Apply tag proposal",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (
+					activeFile &&
+					ProposalUtils.isProposal(
+						this.app.metadataCache.getFileCache(activeFile)
+							?.frontmatter
+					)
+				) {
+					if (!checking) {
+						this.applyProposal(activeFile);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		// Add commands to undo journaled tagging runs
+		this.addCommand({
+			id: "rollback-last-run",
+			name: "Rollback last run",
+			callback: async () => {
+				const [run] = RunJournal.getRuns();
+				if (!run) {
+					new Notice("There are no runs to roll back");
+					return;
+				}
+				await this.rollbackRun(run);
+			},
+		});
+
+		this.addCommand({
+			id: "rollback-run",
+			name: "Rollback run…",
+			callback: () => {
+				if (RunJournal.getRuns().length === 0) {
+					new Notice("There are no runs to roll back");
+					return;
+				}
+				new SelectRunModal(this.app, (run) =>
+					this.rollbackRun(run)
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "pause-bulk-job",
+			name: "Pause bulk job",
+			checkCallback: (checking: boolean) => {
+				const job = JobManager.getActive();
+				if (job && job.state !== "paused") {
+					if (!checking) {
+						this.pauseJob();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "resume-bulk-job",
+			name: "Resume bulk job",
+			checkCallback: (checking: boolean) => {
+				if (JobManager.getActive()?.state === "paused") {
+					if (!checking) {
+						this.resumeJob();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "cancel-bulk-job",
+			name: "Cancel bulk job",
+			checkCallback: (checking: boolean) => {
+				if (JobManager.getActive()) {
+					if (!checking) {
+						this.cancelJob();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		// Add command to generate an excerpt for the current file
+		this.addCommand({
+			id: "generate-excerpt-current-file",
+			name: "Generate excerpt for current file",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === "md") {
+					if (!checking) {
+						this.processExcerpt(activeFile);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		// Add command to generate excerpts for current directory
+		this.addCommand({
+			id: "generate-excerpts-current-directory",
+			name: "Generate excerpts for current directory",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.parent) {
+					if (!checking) {
+						RunConfirmationModal.forDirectory(
+							this.app,
+							this,
+							activeFile.parent,
+							PromptType.EXCERPT_GENERATION
+						).open();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		// Add command to select directory and generate excerpts
+		this.addCommand({
+			id: "generate-excerpts-select-directory",
+			name: "Generate excerpts for a selected directory",
+			callback: async () => {
+				new SelectDirectoryModal(
+					this.app,
+					this,
+					PromptType.EXCERPT_GENERATION
+				).open();
+			},
+		});
+
+		// Add command to generate excerpts for all files in vault
+		this.addCommand({
+			id: "generate-excerpts-all-files",
+			name: "Generate excerpts for all files in vault",
+			callback: async () => {
+				new GenerateAllModal(
+					this.app,
+					this,
+					PromptType.EXCERPT_GENERATION
+				).open();
+			},
+		});
+
+		// Metadata extraction commands
+		this.addCommand({
+			id: "extract-metadata-current-file",
+			name: "Extract metadata for current file",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === "md") {
+					if (!checking) {
+						this.processMetadata(activeFile);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "extract-metadata-current-directory",
+			name: "Extract metadata for current directory",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.parent) {
+					if (!checking) {
+						RunConfirmationModal.forDirectory(
+							this.app,
+							this,
+							activeFile.parent,
+							PromptType.METADATA_EXTRACTION
+						).open();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "extract-metadata-select-directory",
+			name: "Extract metadata for a selected directory",
+			callback: async () => {
+				new SelectDirectoryModal(
+					this.app,
+					this,
+					PromptType.METADATA_EXTRACTION
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "extract-metadata-all-files",
+			name: "Extract metadata for all files in vault",
+			callback: async () => {
+				new GenerateAllModal(
+					this.app,
+					this,
+					PromptType.METADATA_EXTRACTION
+				).open();
+			},
+		});
+
+		// Metadata suggestions are previewed before anything is written
+		this.addCommand({
+			id: "suggest-title-current-file",
+			name: "Suggest title for current file",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === "md") {
+					if (!checking) {
+						this.suggestMetadata(
+							activeFile,
+							PromptType.TITLE_SUGGESTION
+						);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "suggest-aliases-current-file",
+			name: "Suggest aliases for current file",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === "md") {
+					if (!checking) {
+						this.suggestMetadata(
+							activeFile,
+							PromptType.ALIAS_SUGGESTION
+						);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "suggest-description-current-file",
+			name: "Suggest description for current file",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === "md") {
+					if (!checking) {
+						this.suggestMetadata(
+							activeFile,
+							PromptType.DESCRIPTION_SUGGESTION
+						);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
 		// Add command to open commands modal
 		this.addCommand({
 			id: "open-tag-commands-modal",
@@ -165,10 +534,30 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 			console.error("Error shutting down provider factory:", error);
 		}
 
+		// Abort the running job's requests, it resumes next time
+		JobManager.stop();
+		this.autoTagger?.stop();
+
+		// Persist any usage recorded since the last save
+		UsageLedger.flush();
+		RunJournal.flush();
+		TagIndex.flush();
+
 		this.fileProcessor = null;
+		this.autoTagger = null;
 		this.statusBarItem = null;
 	}
 
+	/**
+	 * Folder the plugin is installed in, where its state files are kept
+	 */
+	get pluginDir(): string {
+		return (
+			this.manifest.dir ||
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}`
+		);
+	}
+
 	/**
 	 * Load plugin settings from storage
 	 */
@@ -178,6 +567,14 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 			DEFAULT_SETTINGS,
 			await this.loadData()
 		);
+		// Copy the nested limits so editing them leaves the defaults alone
+		this.settings.rateLimits = Object.assign(
+			JSON.parse(JSON.stringify(DEFAULT_SETTINGS.rateLimits)),
+			this.settings.rateLimits
+		);
+		Pricing.setOverrides(this.settings.priceOverrides);
+		RateLimiter.configure(this.settings.rateLimits);
+		Prompts.setTemplatePath(this.settings.tagPromptPath);
 	}
 
 	/**
@@ -185,6 +582,9 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 	 */
 	async saveSettings() {
 		await this.saveData(this.settings);
+		Pricing.setOverrides(this.settings.priceOverrides);
+		RateLimiter.configure(this.settings.rateLimits);
+		Prompts.setTemplatePath(this.settings.tagPromptPath);
 
 		// Reload prompt templates
 		await Prompts.reload();
@@ -202,55 +602,396 @@ export default class AITagGenerator extends Plugin implements AIExcerptPlugin {
 	 * Process a single markdown file to add or update its tags
 	 * @param file - The file to process
 	 * @param showNotices - Whether to show notification messages
+	 * @returns The processing result, or null if the processor isn't ready
+	 */
+	async processFile(
+		file: TFile,
+		showNotices: boolean = true
+	): Promise<ProcessFileResult | null> {
+		if (!this.fileProcessor) {
+			new Notice("File processor not initialized");
+			return null;
+		}
+		if (this.settings.reviewTags && showNotices) {
+			return await this.reviewTags(file, this.fileProcessor);
+		}
+		return await this.fileProcessor.processFile(file, showNotices);
+	}
+
+	/**
+	 * Generate tags for a file and write them once reviewed in a modal
+	 * @param file - The file to tag
+	 * @param fileProcessor - The processor generating and writing the tags
+	 * @returns The result once the review is applied or dismissed
+	 */
+	private async reviewTags(
+		file: TFile,
+		fileProcessor: FileProcessor
+	): Promise<ProcessFileResult | null> {
+		const notice = new Notice("Generating tags…", 0);
+		const proposal = await fileProcessor
+			.proposeTags(file)
+			.finally(() => notice.hide());
+		if (!proposal) {
+			return null;
+		}
+
+		let entry = proposal.entry;
+		const tags = await new Promise<string[] | null>((resolve) => {
+			new TagReviewModal(
+				this.app,
+				proposal,
+				async () => {
+					const regenerated = await fileProcessor.proposeTags(file);
+					if (regenerated) {
+						entry = regenerated.entry;
+					}
+					return regenerated;
+				},
+				(tag) => fileProcessor.formatTags([tag])[0],
+				resolve
+			).open();
+		});
+		if (!tags) {
+			return { file, status: "skipped", skipReason: "rejected" };
+		}
+		return await fileProcessor.applyTags(file, tags, entry);
+	}
+
+	/**
+	 * Generate an excerpt for a single markdown file
+	 * @param file - The file to process
+	 * @param showNotices - Whether to show notification messages
+	 * @returns The processing result, or null if the processor isn't ready
+	 */
+	async processExcerpt(
+		file: TFile,
+		showNotices: boolean = true
+	): Promise<ProcessFileResult | null> {
+		if (!this.fileProcessor) {
+			new Notice("File processor not initialized");
+			return null;
+		}
+		return await this.fileProcessor.processExcerpt(file, showNotices);
+	}
+
+	/**
+	 * Fill the configured metadata fields of a single markdown file
+	 * @param file - The file to process
+	 * @param showNotices - Whether to show notification messages
+	 * @returns The processing result, or null if the processor isn't ready
 	 */
-	async processFile(file: TFile, showNotices: boolean = true): Promise<void> {
+	async processMetadata(
+		file: TFile,
+		showNotices: boolean = true
+	): Promise<ProcessFileResult | null> {
 		if (!this.fileProcessor) {
 			new Notice("File processor not initialized");
+			return null;
+		}
+		return await this.fileProcessor.processMetadata(file, showNotices);
+	}
+
+	/**
+	 * Suggest a title, aliases or a description and preview it
+	 * @param file - The file to make a suggestion for
+	 * @param type - Which suggestion to make
+	 */
+	async suggestMetadata(file: TFile, type: PromptType): Promise<void> {
+		if (!this.fileProcessor) {
+			new Notice("File processor not initialized");
+			return;
+		}
+		const fileProcessor = this.fileProcessor;
+
+		const notice = new Notice("Asking for a suggestion…", 0);
+		const suggestion = await fileProcessor
+			.suggestMetadata(file, type)
+			.finally(() => notice.hide());
+		if (!suggestion) {
 			return;
 		}
-		await this.fileProcessor.processFile(file, showNotices);
+
+		new SuggestionPreviewModal(this.app, suggestion, async (value) => {
+			await fileProcessor.applySuggestion(suggestion.file, type, value);
+		}).open();
 	}
 
 	/**
-	 * Process all markdown files in a directory to add or update tags
+	 * Queue all markdown files in a directory to add or update tags
 	 * @param folder - The folder to process
+	 * @param task - Whether to generate tags, excerpts or metadata
+	 * @param dryRun - Write proposed tags to a proposal note instead
+	 */
+	async processDirectory(
+		folder: TFolder,
+		task: PromptType = PromptType.TAG_GENERATION,
+		dryRun: boolean = false
+	): Promise<void> {
+		if (!this.fileProcessor) {
+			new Notice("File processor not initialized");
+			return;
+		}
+		if (this.fileProcessor.queueDirectory(folder, task, dryRun)) {
+			await this.runJobs();
+		}
+	}
+
+	/**
+	 * Queue all markdown files in the vault to add or update tags
+	 * @param task - Whether to generate tags, excerpts or metadata
+	 * @param dryRun - Write proposed tags to a proposal note instead
+	 */
+	async processAllFiles(
+		task: PromptType = PromptType.TAG_GENERATION,
+		dryRun: boolean = false
+	): Promise<void> {
+		if (!this.fileProcessor) {
+			new Notice("File processor not initialized");
+			return;
+		}
+		this.fileProcessor.queueAllFiles(task, dryRun);
+		await this.runJobs();
+	}
+
+	/**
+	 * Run queued jobs one after another until the queue is empty or the
+	 * active job is paused
+	 */
+	private async runJobs(): Promise<void> {
+		if (this.currentJob) {
+			// The running job moves on to the next one when it's done
+			return;
+		}
+
+		for (
+			let job = JobManager.getActive();
+			job && job.state !== "paused" && this.fileProcessor;
+			job = JobManager.getActive()
+		) {
+			this.currentJob = job;
+			try {
+				await this.openProposal(await this.fileProcessor.runJob(job));
+			} catch (error) {
+				// Keep the job so it can be resumed or cancelled
+				console.error("Error running bulk job:", error);
+				new Notice(
+					"Bulk job paused after an unexpected error. Resume or cancel it from the status bar."
+				);
+				JobManager.pause();
+			} finally {
+				this.currentJob = null;
+			}
+		}
+	}
+
+	/**
+	 * Pause the active bulk job after its current file
+	 */
+	pauseJob(): void {
+		const job = JobManager.pause();
+		if (job && job !== this.currentJob) {
+			// Waiting to start, so nothing else will report it
+			new Notice(
+				`Paused bulk job at ${job.position}/${job.files.length} files${job.scope}`
+			);
+		}
+	}
+
+	/**
+	 * Continue a paused bulk job
+	 */
+	resumeJob(): void {
+		const job = JobManager.resume();
+		if (job) {
+			new Notice(
+				`Resuming bulk job at ${job.position}/${job.files.length} files${job.scope}`
+			);
+			this.runJobs();
+		}
+	}
+
+	/**
+	 * Cancel the active bulk job and start the next one in the queue
+	 */
+	cancelJob(): void {
+		const job = JobManager.cancel();
+		if (!job || job === this.currentJob || !this.fileProcessor) {
+			// The running job reports its own cancellation
+			return;
+		}
+		this.fileProcessor
+			.finishJob(job, "Cancelled.")
+			.then((note) => this.openProposal(note))
+			.then(() => this.runJobs());
+	}
+
+	/**
+	 * Show the bulk job actions for a click on the status bar
+	 * @param evt - The click
 	 */
-	async processDirectory(folder: TFolder): Promise<void> {
+	private showJobMenu(evt: MouseEvent): void {
+		const job = JobManager.getActive();
+		if (!job) {
+			return;
+		}
+
+		const menu = new Menu();
+		if (job.state === "paused") {
+			menu.addItem((item) =>
+				item
+					.setTitle("Resume bulk job")
+					.setIcon("play")
+					.onClick(() => this.resumeJob())
+			);
+		} else {
+			menu.addItem((item) =>
+				item
+					.setTitle("Pause bulk job")
+					.setIcon("pause")
+					.onClick(() => this.pauseJob())
+			);
+		}
+		menu.addItem((item) =>
+			item
+				.setTitle("Cancel bulk job")
+				.setIcon("x")
+				.onClick(() => this.cancelJob())
+		);
+		menu.showAtMouseEvent(evt);
+	}
+
+	/**
+	 * Restore the tags a journaled run replaced
+	 * @param run - The run to roll back
+	 */
+	async rollbackRun(run: JournalRun): Promise<void> {
 		if (!this.fileProcessor) {
 			new Notice("File processor not initialized");
 			return;
 		}
-		await this.fileProcessor.processDirectory(folder);
+		await this.fileProcessor.rollbackRun(run);
+	}
+
+	/**
+	 * Open the proposal note written by a dry run, if there is one
+	 * @param note - The proposal note, or null after a normal run
+	 */
+	private async openProposal(note: TFile | null): Promise<void> {
+		if (note) {
+			await this.app.workspace.getLeaf(true).openFile(note);
+		}
 	}
 
 	/**
-	 * Process all markdown files in the vault to add or update tags
+	 * Apply the rows kept in an edited proposal note
+	 * @param note - The proposal note
 	 */
-	async processAllFiles(): Promise<void> {
+	async applyProposal(note: TFile): Promise<void> {
 		if (!this.fileProcessor) {
 			new Notice("File processor not initialized");
 			return;
 		}
-		await this.fileProcessor.processAllFiles();
+		await this.fileProcessor.applyProposal(note, (link, sourcePath) =>
+			this.app.metadataCache.getFirstLinkpathDest(link, sourcePath)
+		);
+	}
+
+	/**
+	 * Estimate the tokens, cost and duration of processing a set of files
+	 * @param files - The files in scope
+	 * @param task - Whether tags, excerpts or metadata will be generated
+	 * @returns The estimate, or null if the processor isn't ready
+	 */
+	async estimateRun(
+		files: TFile[],
+		task: PromptType = PromptType.TAG_GENERATION
+	): Promise<RunEstimate | null> {
+		if (!this.fileProcessor) {
+			return null;
+		}
+		return await this.fileProcessor.estimateRun(files, task);
 	}
 
 	/**
 	 * Updates the status bar with current processing information
 	 * @param processed - Number of files processed
 	 * @param total - Total number of files to process
+	 * @param task - What the files are processed for, named in the label
 	 */
-	updateStatusBar(processed: number, total: number): void {
+	updateStatusBar(
+		processed: number,
+		total: number,
+		task: PromptType = PromptType.TAG_GENERATION
+	): void {
+		this.progress = { processed, total, task };
+
 		if (this.statusBarItem) {
-			if (total > 0) {
+			// Mention any provider whose circuit isn't closed
+			const unavailable: string[] = [];
+			for (const {
+				label,
+				snapshot,
+			} of ProviderFactory.getCircuitStates().values()) {
+				if (snapshot.state === CircuitState.OPEN) {
+					unavailable.push(`${label} paused`);
+				} else if (snapshot.state === CircuitState.HALF_OPEN) {
+					unavailable.push(`${label} probing`);
+				}
+			}
+			const circuitText =
+				unavailable.length > 0 ? ` · ${unavailable.join(", ")}` : "";
+			const queued = JobManager.getQueuedCount();
+			const queueText = queued > 0 ? ` · ${queued} queued` : "";
+			const job = JobManager.getActive();
+
+			if (job && job.state === "paused") {
+				this.statusBarItem.setText(
+					`AI Tag: Paused ${job.position}/${job.files.length}${queueText}${circuitText}`
+				);
+				this.statusBarItem.style.display = "inline-flex";
+			} else if (total > 0) {
 				const progress = ((processed / total) * 100).toFixed(1);
 				this.statusBarItem.setText(
-					`Generating tags: ${processed}/${total} (${progress}%)`
+					`Generating ${
+						TASK_NOUNS[task] || "tags"
+					}: ${processed}/${total} (${progress}%)${queueText}${circuitText}`
 				);
 				this.statusBarItem.style.display = "inline-flex";
 			} else {
-				this.statusBarItem.setText("AI Tag: Ready");
+				this.statusBarItem.setText(`AI Tag: Ready${circuitText}`);
 				this.statusBarItem.style.display = "inline-flex";
 			}
 		}
 	}
+
+	/**
+	 * Tell the user when a provider is paused after failures or recovers
+	 * @param label - The provider and model whose circuit changed
+	 * @param state - The new circuit state
+	 * @param previous - The state before the change
+	 */
+	private handleCircuitStateChange(
+		label: string,
+		state: CircuitState,
+		previous: CircuitState
+	): void {
+		if (state === CircuitState.OPEN) {
+			new Notice(
+				`${label} paused after repeated failures. It will be retried automatically in a minute.`
+			);
+		} else if (
+			state === CircuitState.CLOSED &&
+			previous === CircuitState.HALF_OPEN
+		) {
+			// The recovery probe succeeded
+			new Notice(`${label} is responding again`);
+		}
+
+		this.updateStatusBar(
+			this.progress.processed,
+			this.progress.total,
+			this.progress.task
+		);
+	}
 }
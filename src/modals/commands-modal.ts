@@ -1,6 +1,7 @@
 import { App, Modal, Notice, Plugin, Setting, TFolder } from "obsidian";
-import { AIExcerptPlugin } from "../types";
+import { AIExcerptPlugin, PromptType } from "../types";
 import { GenerateAllModal } from "./generate-all-modal";
+import { RunConfirmationModal } from "./run-confirmation-modal";
 import { SelectDirectoryModal } from "./select-directory-modal";
 
 /**
@@ -43,13 +44,17 @@ export class CommandsModal extends Modal {
 			.setName("Generate for Current Directory")
 			.setDesc("Generate tags for all files in the current directory")
 			.addButton((button) => {
-				button.setButtonText("Execute").onClick(async () => {
+				button.setButtonText("Execute").onClick(() => {
 					const activeFile = this.app.workspace.getActiveFile();
 					if (activeFile) {
 						const parent = activeFile.parent;
 						if (parent) {
 							this.close();
-							await this.plugin.processDirectory(parent);
+							RunConfirmationModal.forDirectory(
+								this.app,
+								this.plugin,
+								parent
+							).open();
 						}
 					} else {
 						new Notice("No active file to determine directory");
@@ -81,6 +86,149 @@ export class CommandsModal extends Modal {
 				});
 			});
 
+		contentEl.createEl("h3", { text: "Excerpts" });
+
+		// Current file excerpt command
+		new Setting(contentEl)
+			.setName("Excerpt for Current File")
+			.setDesc("Generate an excerpt for the currently active file")
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(async () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (activeFile) {
+						this.close();
+						await this.plugin.processExcerpt(activeFile);
+					} else {
+						new Notice("No active file");
+					}
+				});
+			});
+
+		// Selected directory excerpt command
+		new Setting(contentEl)
+			.setName("Excerpts for Selected Directory")
+			.setDesc(
+				"Choose a directory and generate excerpts for all files within it"
+			)
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(() => {
+					this.close();
+					new SelectDirectoryModal(
+						this.app,
+						this.plugin,
+						PromptType.EXCERPT_GENERATION
+					).open();
+				});
+			});
+
+		// All files excerpt command
+		new Setting(contentEl)
+			.setName("Excerpts for All Files")
+			.setDesc("Generate excerpts for all markdown files in the vault")
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(() => {
+					this.close();
+					new GenerateAllModal(
+						this.app,
+						this.plugin,
+						PromptType.EXCERPT_GENERATION
+					).open();
+				});
+			});
+
+		contentEl.createEl("h3", { text: "Metadata" });
+
+		// Current file metadata command
+		new Setting(contentEl)
+			.setName("Metadata for Current File")
+			.setDesc(
+				"Fill the metadata fields from settings for the currently active file"
+			)
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(async () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (activeFile) {
+						this.close();
+						await this.plugin.processMetadata(activeFile);
+					} else {
+						new Notice("No active file");
+					}
+				});
+			});
+
+		// Selected directory metadata command
+		new Setting(contentEl)
+			.setName("Metadata for Selected Directory")
+			.setDesc(
+				"Choose a directory and fill the metadata fields for all files within it"
+			)
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(() => {
+					this.close();
+					new SelectDirectoryModal(
+						this.app,
+						this.plugin,
+						PromptType.METADATA_EXTRACTION
+					).open();
+				});
+			});
+
+		contentEl.createEl("h3", { text: "Suggestions" });
+
+		new Setting(contentEl)
+			.setName("Suggest Title")
+			.setDesc("Suggest a better title and rename the note")
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(async () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (activeFile) {
+						this.close();
+						await this.plugin.suggestMetadata(
+							activeFile,
+							PromptType.TITLE_SUGGESTION
+						);
+					} else {
+						new Notice("No active file");
+					}
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Suggest Aliases")
+			.setDesc("Suggest aliases to add to the note's frontmatter")
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(async () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (activeFile) {
+						this.close();
+						await this.plugin.suggestMetadata(
+							activeFile,
+							PromptType.ALIAS_SUGGESTION
+						);
+					} else {
+						new Notice("No active file");
+					}
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Suggest Description")
+			.setDesc("Suggest a one-line description for the note")
+			.addButton((button) => {
+				button.setButtonText("Execute").onClick(async () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (activeFile) {
+						this.close();
+						await this.plugin.suggestMetadata(
+							activeFile,
+							PromptType.DESCRIPTION_SUGGESTION
+						);
+					} else {
+						new Notice("No active file");
+					}
+				});
+			});
+
 		// Close button at the bottom
 		const footerEl = contentEl.createDiv();
 		footerEl.style.textAlign = "center";
@@ -0,0 +1,251 @@
+import {
+	App,
+	DropdownComponent,
+	Modal,
+	Setting,
+	TFile,
+	TFolder,
+} from "obsidian";
+import {
+	AIExcerptPlugin,
+	IncrementalMode,
+	PromptType,
+	RunEstimate,
+	TASK_NOUNS,
+} from "../types";
+import { FileUtils } from "../utils/file-utils";
+import { Pricing } from "../utils/pricing";
+
+/**
+ * Confirmation shown before a bulk run, with an estimate of the files,
+ * tokens, cost and time it will take
+ */
+export class RunConfirmationModal extends Modal {
+	protected plugin: AIExcerptPlugin;
+	private title: string;
+	private description: string;
+	private files: TFile[];
+	private onConfirm: () => Promise<void>;
+	private task: PromptType;
+	private onDryRun: (() => Promise<void>) | null;
+	// Only the latest estimate is shown when the mode changes quickly
+	private estimateRequest = 0;
+
+	constructor(
+		app: App,
+		plugin: AIExcerptPlugin,
+		title: string,
+		description: string,
+		files: TFile[],
+		onConfirm: () => Promise<void>,
+		task: PromptType = PromptType.TAG_GENERATION,
+		onDryRun: (() => Promise<void>) | null = null
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.title = title;
+		this.description = description;
+		this.files = files;
+		this.onConfirm = onConfirm;
+		this.task = task;
+		this.onDryRun = onDryRun;
+	}
+
+	/**
+	 * Create the confirmation for a folder and its subfolders
+	 */
+	static forDirectory(
+		app: App,
+		plugin: AIExcerptPlugin,
+		folder: TFolder,
+		task: PromptType = PromptType.TAG_GENERATION
+	): RunConfirmationModal {
+		const noun = TASK_NOUNS[task] || "tags";
+		return new RunConfirmationModal(
+			app,
+			plugin,
+			`Generate ${
+				noun.charAt(0).toUpperCase() + noun.slice(1)
+			} for ${folder.path}`,
+			`This will check all markdown files in ${folder.path} and its subfolders and generate ${noun} where needed.`,
+			FileUtils.collectMarkdownFiles(folder),
+			() => plugin.processDirectory(folder, task),
+			task,
+			task === PromptType.TAG_GENERATION
+				? () => plugin.processDirectory(folder, task, true)
+				: null
+		);
+	}
+
+	/**
+	 * Add the incremental modes to a dropdown
+	 *
+	 * @param dropdown - The dropdown to fill
+	 * @returns The dropdown, for chaining
+	 */
+	static addIncrementalOptions(
+		dropdown: DropdownComponent
+	): DropdownComponent {
+		return dropdown
+			.addOption(
+				IncrementalMode.CHANGED,
+				"Only notes changed since last tagging"
+			)
+			.addOption(IncrementalMode.UNTAGGED, "Only untagged notes")
+			.addOption(IncrementalMode.ALL, "All notes (force)");
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: this.title });
+		contentEl.createEl("p", { text: this.description });
+
+		if (this.task === PromptType.TAG_GENERATION) {
+			new Setting(contentEl)
+				.setName("Notes to tag")
+				.setDesc(
+					"Notes count as changed when their content, the prompt template or the model changed."
+				)
+				.addDropdown((dropdown) =>
+					RunConfirmationModal.addIncrementalOptions(dropdown)
+						.setValue(this.plugin.settings.incrementalMode)
+						.onChange(async (value) => {
+							this.plugin.settings.incrementalMode =
+								value as IncrementalMode;
+							await this.plugin.saveSettings();
+							this.refreshEstimate(estimateEl);
+						})
+				);
+		}
+		const estimateEl = contentEl.createDiv();
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.textAlign = "center";
+		buttonContainer.style.marginTop = "20px";
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.style.marginRight = "10px";
+		cancelButton.addEventListener("click", () => this.close());
+
+		if (this.onDryRun) {
+			const onDryRun = this.onDryRun;
+			const dryRunButton = buttonContainer.createEl("button", {
+				text: "Dry run",
+			});
+			dryRunButton.style.marginRight = "10px";
+			dryRunButton.title =
+				"Generate tags and write them to a proposal note without changing any file";
+			dryRunButton.addEventListener("click", async () => {
+				this.close();
+				await onDryRun();
+			});
+		}
+
+		const confirmButton = buttonContainer.createEl("button", {
+			text: "Proceed",
+			cls: "mod-cta",
+		});
+		confirmButton.addEventListener("click", async () => {
+			this.close();
+			await this.onConfirm();
+		});
+
+		this.refreshEstimate(estimateEl);
+	}
+
+	/**
+	 * Estimate the run again and show the result
+	 */
+	private refreshEstimate(estimateEl: HTMLElement) {
+		const request = ++this.estimateRequest;
+		estimateEl.empty();
+		estimateEl.createEl("p", { text: "Estimating…" });
+
+		this.plugin
+			.estimateRun(this.files, this.task)
+			.then((estimate) => {
+				if (request !== this.estimateRequest) return;
+				estimateEl.empty();
+				if (estimate) {
+					this.renderEstimate(estimateEl, estimate);
+				}
+			})
+			.catch((error) => {
+				console.error("Error estimating run:", error);
+				estimateEl.empty();
+				estimateEl.createEl("p", {
+					text: "Could not estimate this run.",
+				});
+			});
+	}
+
+	/**
+	 * Render the estimate as a short list
+	 */
+	private renderEstimate(containerEl: HTMLElement, estimate: RunEstimate) {
+		const toProcess = estimate.fileCount - estimate.skipped;
+		const list = containerEl.createEl("ul");
+
+		list.createEl("li", {
+			text: `Files to process: ${toProcess} of ${estimate.fileCount}`,
+		});
+
+		if (estimate.skipped > 0) {
+			const reasons = Object.entries(estimate.skipReasons)
+				.map(([reason, count]) => `${reason}: ${count}`)
+				.join(", ");
+			list.createEl("li", {
+				text: `Skipped: ${estimate.skipped} (${reasons})`,
+			});
+		}
+
+		list.createEl("li", {
+			text:
+				`Estimated tokens: ~${estimate.inputTokens.toLocaleString()} in, ` +
+				`~${estimate.outputTokens.toLocaleString()} out ` +
+				`(includes ~${estimate.promptTokensPerFile.toLocaleString()} tokens of instructions${
+					this.task === PromptType.TAG_GENERATION
+						? " and existing tags"
+						: ""
+				} per note)`,
+		});
+
+		if (!estimate.model) {
+			list.createEl("li", {
+				text: "Estimated cost: no provider configured",
+			});
+		} else if (estimate.cost === null) {
+			list.createEl("li", {
+				text: `Estimated cost: unknown, no price for ${estimate.model}`,
+			});
+		} else {
+			list.createEl("li", {
+				text: `Estimated cost: ~${Pricing.formatCost(estimate.cost)} with ${estimate.model}`,
+			});
+		}
+
+		list.createEl("li", {
+			text: `Expected duration: ~${this.formatDuration(estimate.durationMs)} at the current rate limit`,
+		});
+
+		containerEl.createEl("p", {
+			text: "Estimates are approximate; actual usage is recorded in the usage ledger.",
+			cls: "setting-item-description",
+		});
+	}
+
+	private formatDuration(ms: number): string {
+		const seconds = Math.ceil(ms / 1000);
+		if (seconds < 60) return `${seconds}s`;
+		const minutes = Math.round(seconds / 60);
+		if (minutes < 60) return `${minutes} min`;
+		return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
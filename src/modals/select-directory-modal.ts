@@ -1,13 +1,24 @@
 import { App, FuzzySuggestModal, TFolder } from "obsidian";
-import { AIExcerptPlugin } from "../types";
+import { AIExcerptPlugin, PromptType, TASK_NOUNS } from "../types";
+import { RunConfirmationModal } from "./run-confirmation-modal";
 
 export class SelectDirectoryModal extends FuzzySuggestModal<TFolder> {
 	private plugin: AIExcerptPlugin;
+	private task: PromptType;
 
-	constructor(app: App, plugin: AIExcerptPlugin) {
+	constructor(
+		app: App,
+		plugin: AIExcerptPlugin,
+		task: PromptType = PromptType.TAG_GENERATION
+	) {
 		super(app);
 		this.plugin = plugin;
-		this.setPlaceholder("Select a directory to generate tags for");
+		this.task = task;
+		this.setPlaceholder(
+			`Select a directory to generate ${
+				TASK_NOUNS[task] || "tags"
+			} for`
+		);
 	}
 
 	getItems(): TFolder[] {
@@ -20,7 +31,12 @@ export class SelectDirectoryModal extends FuzzySuggestModal<TFolder> {
 		return folder.path;
 	}
 
-	async onChooseItem(folder: TFolder): Promise<void> {
-		await this.plugin.processDirectory(folder);
+	onChooseItem(folder: TFolder): void {
+		RunConfirmationModal.forDirectory(
+			this.app,
+			this.plugin,
+			folder,
+			this.task
+		).open();
 	}
 }
@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { JournalRun, RunJournal } from "../services/run-journal";
+
+/**
+ * Lets the user pick a journaled run to roll back
+ */
+export class SelectRunModal extends FuzzySuggestModal<JournalRun> {
+	private onChoose: (run: JournalRun) => void;
+
+	constructor(app: App, onChoose: (run: JournalRun) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder("Select a run to roll back");
+	}
+
+	getItems(): JournalRun[] {
+		return RunJournal.getRuns();
+	}
+
+	getItemText(run: JournalRun): string {
+		return RunJournal.describeRun(run);
+	}
+
+	onChooseItem(run: JournalRun): void {
+		this.onChoose(run);
+	}
+}
@@ -0,0 +1,115 @@
+import { App, Modal, Setting } from "obsidian";
+import { MetadataSuggestion, PromptType } from "../types";
+
+const LABELS: Partial<Record<PromptType, string>> = {
+	[PromptType.TITLE_SUGGESTION]: "title",
+	[PromptType.ALIAS_SUGGESTION]: "aliases",
+	[PromptType.DESCRIPTION_SUGGESTION]: "description",
+};
+
+/**
+ * Preview of a title, alias or description suggestion
+ *
+ * Text suggestions can be edited before they are applied, and each
+ * suggested alias can be unchecked. Nothing is written until Apply is
+ * clicked.
+ */
+export class SuggestionPreviewModal extends Modal {
+	private suggestion: MetadataSuggestion;
+	private onApply: (value: string | string[]) => Promise<void>;
+	private value: string | string[];
+
+	constructor(
+		app: App,
+		suggestion: MetadataSuggestion,
+		onApply: (value: string | string[]) => Promise<void>
+	) {
+		super(app);
+		this.suggestion = suggestion;
+		this.onApply = onApply;
+		this.value = Array.isArray(suggestion.value)
+			? [...suggestion.value]
+			: suggestion.value;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const label = LABELS[this.suggestion.type] || "value";
+
+		contentEl.createEl("h2", {
+			text: `Suggested ${label} for ${this.suggestion.file.basename}`,
+		});
+		contentEl.createEl("p", {
+			text: `Suggested via ${this.suggestion.via}.`,
+			cls: "setting-item-description",
+		});
+
+		const current = this.suggestion.current;
+		const currentText = Array.isArray(current)
+			? current.join(", ")
+			: current;
+		new Setting(contentEl)
+			.setName(`Current ${label}`)
+			.setDesc(currentText || "None");
+
+		const suggested = this.suggestion.value;
+		if (Array.isArray(suggested)) {
+			if (suggested.length === 0) {
+				contentEl.createEl("p", {
+					text: "No new aliases were suggested.",
+				});
+			}
+			const selected = new Set(suggested);
+			for (const alias of suggested) {
+				new Setting(contentEl).setName(alias).addToggle((toggle) =>
+					toggle.setValue(true).onChange((checked) => {
+						if (checked) {
+							selected.add(alias);
+						} else {
+							selected.delete(alias);
+						}
+						// Keep the suggested order
+						this.value = suggested.filter((item) =>
+							selected.has(item)
+						);
+					})
+				);
+			}
+		} else {
+			new Setting(contentEl)
+				.setName(`Suggested ${label}`)
+				.addText((text) => {
+					text.setValue(suggested).onChange((value) => {
+						this.value = value;
+					});
+					text.inputEl.style.width = "100%";
+				});
+		}
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.textAlign = "center";
+		buttonContainer.style.marginTop = "20px";
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.style.marginRight = "10px";
+		cancelButton.addEventListener("click", () => this.close());
+
+		const applyButton = buttonContainer.createEl("button", {
+			text: "Apply",
+			cls: "mod-cta",
+		});
+		applyButton.disabled =
+			Array.isArray(suggested) && suggested.length === 0;
+		applyButton.addEventListener("click", async () => {
+			this.close();
+			await this.onApply(this.value);
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
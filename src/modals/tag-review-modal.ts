@@ -0,0 +1,218 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { TagProposal } from "../types";
+
+/**
+ * Review of generated tags before they are written to a note
+ *
+ * Tags are listed in three groups: current tags that stay, new tags and
+ * tags that would be removed. Each change can be accepted or rejected,
+ * tags can be added by hand, and the tags can be generated again.
+ */
+export class TagReviewModal extends Modal {
+	private proposal: TagProposal;
+	private regenerate: () => Promise<TagProposal | null>;
+	private formatTag: (tag: string) => string;
+	private onSubmit: (tags: string[] | null) => void;
+	// Whether each tag ends up in the note, by tag
+	private included = new Map<string, boolean>();
+	// Tags typed in the modal, kept when regenerating
+	private manualTags: string[] = [];
+	private submitted = false;
+	private regenerating = false;
+
+	constructor(
+		app: App,
+		proposal: TagProposal,
+		regenerate: () => Promise<TagProposal | null>,
+		formatTag: (tag: string) => string,
+		onSubmit: (tags: string[] | null) => void
+	) {
+		super(app);
+		this.regenerate = regenerate;
+		this.formatTag = formatTag;
+		this.onSubmit = onSubmit;
+		this.proposal = proposal;
+		this.resetSelection();
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	/**
+	 * Accept every proposed change, keeping tags added by hand
+	 */
+	private resetSelection() {
+		this.included.clear();
+		for (const tag of this.proposal.current) {
+			this.included.set(tag, !this.proposal.merge.removed.includes(tag));
+		}
+		for (const tag of [...this.proposal.merge.added, ...this.manualTags]) {
+			this.included.set(tag, true);
+		}
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", {
+			text: `Review tags for ${this.proposal.file.basename}`,
+		});
+		contentEl.createEl("p", {
+			text: `Generated via ${this.proposal.via}. Only the checked changes are written.`,
+			cls: "setting-item-description",
+		});
+
+		const { merge, current } = this.proposal;
+		const kept = current.filter((tag) => !merge.removed.includes(tag));
+		this.renderGroup("Keep", kept, false, (tag) =>
+			this.isLocked(tag) ? "Locked" : ""
+		);
+		this.renderGroup(
+			"Add",
+			[
+				...merge.added,
+				...this.manualTags.filter((tag) => !merge.added.includes(tag)),
+			],
+			false,
+			(tag) => (this.manualTags.includes(tag) ? "Added by hand" : "")
+		);
+		this.renderGroup("Remove", merge.removed, true, () => "");
+
+		let newTag = "";
+		new Setting(contentEl)
+			.setName("Add a tag")
+			.addText((text) =>
+				text.setPlaceholder("tag or parent/child").onChange((value) => {
+					newTag = value;
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Add").onClick(() => {
+					if (!newTag.trim()) {
+						return;
+					}
+					const tag = this.formatTag(newTag);
+					if (this.included.get(tag)) {
+						return;
+					}
+					if (!current.includes(tag) && !merge.added.includes(tag)) {
+						this.manualTags.push(tag);
+					}
+					this.included.set(tag, true);
+					this.render();
+				})
+			);
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.textAlign = "center";
+		buttonContainer.style.marginTop = "20px";
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.style.marginRight = "10px";
+		cancelButton.addEventListener("click", () => this.close());
+
+		const regenerateButton = buttonContainer.createEl("button", {
+			text: this.regenerating ? "Regenerating…" : "Regenerate",
+		});
+		regenerateButton.style.marginRight = "10px";
+		regenerateButton.disabled = this.regenerating;
+		regenerateButton.addEventListener("click", async () => {
+			this.regenerating = true;
+			this.render();
+			const proposal = await this.regenerate().catch((error) => {
+				console.error("Error regenerating tags:", error);
+				new Notice("Failed to regenerate tags");
+				return null;
+			});
+			this.regenerating = false;
+			if (proposal) {
+				this.proposal = proposal;
+				this.resetSelection();
+			}
+			this.render();
+		});
+
+		const applyButton = buttonContainer.createEl("button", {
+			text: "Apply",
+			cls: "mod-cta",
+		});
+		applyButton.disabled = this.regenerating;
+		applyButton.addEventListener("click", () => {
+			this.submit(this.getAcceptedTags());
+			this.close();
+		});
+	}
+
+	/**
+	 * Render one group of tags with a toggle per tag
+	 *
+	 * @param name - The change the toggles accept
+	 * @param tags - The tags in the group
+	 * @param removal - Whether checking a tag removes it from the note
+	 * @param describe - Extra text shown next to a tag
+	 */
+	private renderGroup(
+		name: string,
+		tags: string[],
+		removal: boolean,
+		describe: (tag: string) => string
+	) {
+		if (tags.length === 0) {
+			return;
+		}
+
+		this.contentEl.createEl("h3", { text: name });
+		for (const tag of tags) {
+			new Setting(this.contentEl)
+				.setName(tag)
+				.setDesc(describe(tag))
+				.addToggle((toggle) =>
+					toggle
+						.setValue(
+							removal
+								? !this.included.get(tag)
+								: !!this.included.get(tag)
+						)
+						.setDisabled(this.isLocked(tag))
+						.onChange((checked) => {
+							this.included.set(tag, removal ? !checked : checked);
+						})
+				);
+		}
+	}
+
+	/**
+	 * Whether a tag is listed in the note's locked-tags
+	 */
+	private isLocked(tag: string): boolean {
+		const key = (item: string) => item.replace(/^#/, "").toLowerCase();
+		return this.proposal.locked.some((item) => key(item) === key(tag));
+	}
+
+	/**
+	 * The tags the note ends up with, in the order they were listed
+	 */
+	private getAcceptedTags(): string[] {
+		return Array.from(this.included.entries())
+			.filter(([, included]) => included)
+			.map(([tag]) => tag);
+	}
+
+	private submit(tags: string[] | null) {
+		if (!this.submitted) {
+			this.submitted = true;
+			this.onSubmit(tags);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		// Closing without applying rejects the proposal
+		this.submit(null);
+	}
+}
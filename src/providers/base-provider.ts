@@ -0,0 +1,362 @@
+import {
+	AIExcerptProvider,
+	LLMProvider,
+	NoteContext,
+	PromptType,
+	RequestOptions,
+	SuggestionSpec,
+} from "../types";
+import { UsageLedger } from "../services/usage-ledger";
+import { TagUtils } from "../utils/tag-utils";
+import { Prompts } from "../utils/prompts";
+import { ExcerptSchema } from "../utils/excerpt-schema";
+import {
+	InvalidOutputError,
+	TagSchema,
+	ValidationResult,
+} from "../utils/tag-schema";
+import { TokenUtils } from "../utils/token-utils";
+import { RetryContext } from "./retry-handler";
+import { RateLimiter } from "./rate-limiter";
+
+/**
+ * A request for a structured (JSON schema constrained) response
+ */
+export interface StructuredRequest {
+	system: string;
+	prompt: string;
+	// Name of the tool / response format carrying the result
+	schemaName: string;
+	schemaDescription: string;
+	schema: object;
+	maxTokens: number;
+	// System prompt and prompt as replay fixtures are keyed, with the parts
+	// that depend on the vault rather than the note (the existing tags)
+	// left out. Defaults to the prompts themselves.
+	fixtureText?: string;
+}
+
+/**
+ * Base class for providers that return structured output
+ *
+ * Subclasses only implement `complete`, which sends a request using the
+ * provider's native structured output feature (tool use, JSON schema
+ * response formats) and returns the parsed JSON. Validation against the
+ * shared schema and the single corrective re-ask live here so every
+ * provider behaves the same.
+ */
+export abstract class BaseProvider implements AIExcerptProvider {
+	protected abstract providerType: LLMProvider;
+	protected model: string;
+	protected promptType: PromptType;
+	private lastUsage: { input: number; output: number } | null = null;
+
+	constructor(model: string, promptType: PromptType) {
+		this.model = model;
+		this.promptType = promptType;
+	}
+
+	/**
+	 * Send a structured request and return the parsed response
+	 *
+	 * @param request - The prompt and the schema the response must follow
+	 * @param options - Signal and timeout passed on to the client
+	 * @returns The parsed JSON value produced by the model
+	 * @throws InvalidOutputError if the reply can't be parsed as JSON
+	 */
+	abstract complete(
+		request: StructuredRequest,
+		options?: RequestOptions
+	): Promise<unknown>;
+
+	/**
+	 * Get token usage information for the last request if available
+	 */
+	getTokenUsage(): { input: number; output: number } | null {
+		return this.lastUsage;
+	}
+
+	/**
+	 * Retry context for a request, throttled by the provider's rate limiter
+	 *
+	 * @param label - Provider name used in logs and error messages
+	 * @param request - The request, sized for the tokens-per-minute limit
+	 * @param options - Signal and timeout for the request
+	 */
+	protected getRetryContext(
+		label: string,
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): RetryContext {
+		return {
+			provider: label,
+			model: this.model,
+			limiter: RateLimiter.forProvider(this.providerType),
+			tokens:
+				TokenUtils.estimate(request.system + request.prompt) +
+				request.maxTokens,
+			signal: options.signal,
+			timeoutMs: options.timeoutMs,
+		};
+	}
+
+	/**
+	 * Record the tokens a request used, here and in the usage ledger
+	 *
+	 * Subclasses call this for every response, including ones that are
+	 * later rejected by validation, since those tokens are billed too.
+	 *
+	 * @param input - Prompt tokens
+	 * @param output - Completion tokens
+	 * @param options - The request's options, carrying a bulk job's totals
+	 */
+	protected recordUsage(
+		input: number,
+		output: number,
+		options?: RequestOptions
+	): void {
+		this.lastUsage = { input, output };
+		UsageLedger.record(
+			this.providerType,
+			this.model,
+			input,
+			output,
+			options?.usage
+		);
+	}
+
+	async generateTags(
+		content: string,
+		context?: NoteContext,
+		options?: RequestOptions
+	): Promise<string[]> {
+		// Get existing tags for context
+		const existingTags = TagUtils.getAllVaultTags();
+
+		const { system, prompt } = await Prompts.renderTagPrompt(
+			content,
+			existingTags,
+			context
+		);
+		const keyed = await Prompts.renderTagPrompt(content, [], context);
+		return this.completeTags(
+			system,
+			prompt,
+			keyed.system + keyed.prompt,
+			options
+		);
+	}
+
+	/**
+	 * Pick the final tags for a long note from the tags of its chunks
+	 *
+	 * @param candidates - Candidate tags, annotated with how often they were suggested
+	 * @param outline - Short description of the note's structure
+	 * @param options - Signal and timeout for the request
+	 * @returns The tags for the whole note
+	 */
+	async mergeTags(
+		candidates: string[],
+		outline: string,
+		options?: RequestOptions
+	): Promise<string[]> {
+		const existingTags = TagUtils.getAllVaultTags();
+
+		return this.completeTags(
+			Prompts.tagSystemPrompt,
+			Prompts.buildMergeRequest(candidates, outline, existingTags),
+			Prompts.tagSystemPrompt +
+				Prompts.buildMergeRequest(candidates, outline, []),
+			options
+		);
+	}
+
+	/**
+	 * Generate a short excerpt summarizing a note
+	 *
+	 * @param content - The note content without frontmatter
+	 * @param maxLength - The maximum excerpt length in characters
+	 * @param context - The note being summarized, for the prompt template
+	 * @param options - Signal and timeout for the request
+	 * @returns The excerpt on a single line
+	 */
+	async generateExcerpt(
+		content: string,
+		maxLength: number,
+		context?: NoteContext,
+		options?: RequestOptions
+	): Promise<string> {
+		const { system, prompt } = Prompts.renderExcerptPrompt(
+			content,
+			maxLength,
+			context
+		);
+
+		return this.completeValidated(
+			{
+				system,
+				prompt,
+				schemaName: ExcerptSchema.toolName,
+				schemaDescription: ExcerptSchema.description,
+				schema: ExcerptSchema.jsonSchema,
+				// Room for the excerpt in any language plus the JSON wrapper
+				maxTokens: Math.ceil(maxLength / 2) + 100,
+			},
+			(value) => ExcerptSchema.validate(value, maxLength),
+			options
+		);
+	}
+
+	/**
+	 * Ask for a title, alias or description suggestion
+	 *
+	 * @param spec - The suggestion's schema, validator and prompt
+	 * @param content - The note content
+	 * @param context - The note the suggestion is for
+	 * @param variables - Extra template variables, e.g. `existing_aliases`
+	 * @param options - Signal and timeout for the request
+	 * @returns The validated suggestion
+	 */
+	async suggest<T>(
+		spec: SuggestionSpec<T>,
+		content: string,
+		context?: NoteContext,
+		variables: Record<string, string> = {},
+		options?: RequestOptions
+	): Promise<T> {
+		const { system, prompt } = Prompts.renderSuggestionPrompt(
+			spec,
+			content,
+			context,
+			variables
+		);
+
+		return this.completeValidated(
+			{
+				system,
+				prompt,
+				schemaName: spec.schemaName,
+				schemaDescription: spec.schemaDescription,
+				schema: spec.schema,
+				maxTokens: spec.maxTokens,
+			},
+			(value) => spec.validate(value),
+			options
+		);
+	}
+
+	/**
+	 * Send a tag prompt and validate the reply against the tag schema
+	 * @private
+	 */
+	private completeTags(
+		system: string,
+		prompt: string,
+		fixtureText: string,
+		options?: RequestOptions
+	): Promise<string[]> {
+		return this.completeValidated(
+			{
+				system,
+				prompt,
+				schemaName: TagSchema.toolName,
+				schemaDescription: TagSchema.description,
+				schema: TagSchema.jsonSchema,
+				maxTokens: 300,
+				fixtureText,
+			},
+			(value) => TagSchema.validate(value),
+			options
+		);
+	}
+
+	/**
+	 * Run a structured request and validate the result, re-asking once with
+	 * the validation errors if the first reply is rejected
+	 *
+	 * @param request - The structured request
+	 * @param validate - Validator for the parsed response
+	 * @param options - Signal and timeout for both requests
+	 * @returns The validated value
+	 * @throws InvalidOutputError if the corrected reply is still invalid
+	 */
+	protected async completeValidated<T>(
+		request: StructuredRequest,
+		validate: (value: unknown) => ValidationResult<T>,
+		options?: RequestOptions
+	): Promise<T> {
+		const first = await this.completeAndValidate(
+			request,
+			validate,
+			options
+		);
+		if (first.valid) {
+			return first.value as T;
+		}
+
+		console.warn(
+			`Rejected structured response from ${this.model}, asking again:`,
+			first.errors
+		);
+
+		const correction = `
+
+Your previous answer was rejected for these reasons:
+${first.errors.map((error) => `- ${error}`).join("\n")}
+Answer again using the ${request.schemaName} schema.`;
+		const second = await this.completeAndValidate(
+			{
+				...request,
+				prompt: request.prompt + correction,
+				fixtureText:
+					request.fixtureText !== undefined
+						? request.fixtureText + correction
+						: undefined,
+			},
+			validate,
+			options
+		);
+		if (second.valid) {
+			return second.value as T;
+		}
+
+		throw new InvalidOutputError(
+			`${this.model} returned invalid output twice: ${second.errors.join(
+				"; "
+			)}`
+		);
+	}
+
+	/**
+	 * Run one request and validate it, treating unparseable replies as invalid
+	 * @private
+	 */
+	private async completeAndValidate<T>(
+		request: StructuredRequest,
+		validate: (value: unknown) => ValidationResult<T>,
+		options?: RequestOptions
+	): Promise<ValidationResult<T>> {
+		try {
+			return validate(await this.complete(request, options));
+		} catch (error) {
+			if (error instanceof InvalidOutputError) {
+				return { valid: false, errors: [error.message] };
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Parse a JSON reply, converting parse failures to InvalidOutputError
+	 *
+	 * @param text - The raw reply text
+	 * @returns The parsed value
+	 */
+	protected parseJson(text: string): unknown {
+		try {
+			return JSON.parse(text);
+		} catch {
+			throw new InvalidOutputError("Response was not valid JSON");
+		}
+	}
+}
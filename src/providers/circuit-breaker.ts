@@ -0,0 +1,171 @@
+/**
+ * States of a provider circuit breaker
+ */
+export enum CircuitState {
+	// Requests flow normally
+	CLOSED = "closed",
+	// Provider is failing; requests are rejected until the cooldown ends
+	OPEN = "open",
+	// Cooldown ended; a single probe request decides whether to close again
+	HALF_OPEN = "half-open",
+}
+
+/**
+ * Point-in-time view of a circuit breaker, used for display
+ */
+export interface CircuitSnapshot {
+	state: CircuitState;
+	consecutiveFailures: number;
+	// When an open circuit will allow its next probe, in ms since epoch
+	retryAt: number | null;
+}
+
+/**
+ * Circuit breaker guarding requests to a single provider
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and
+ * rejects requests for `cooldownMs`. Once the cooldown has passed, exactly
+ * one probe request is let through. A successful probe closes the circuit;
+ * a failed probe opens it again for another cooldown. A probe that ends
+ * without either, e.g. because it was aborted, frees the slot for the next
+ * request.
+ */
+export class CircuitBreaker {
+	private state: CircuitState = CircuitState.CLOSED;
+	private consecutiveFailures: number = 0;
+	private openedAt: number = 0;
+	private probeStartedAt: number | null = null;
+	private failureThreshold: number;
+	private cooldownMs: number;
+	private onStateChange:
+		| ((state: CircuitState, previous: CircuitState) => void)
+		| null;
+
+	/**
+	 * Creates a new circuit breaker
+	 *
+	 * @param failureThreshold - Consecutive failures before the circuit opens
+	 * @param cooldownMs - How long the circuit stays open before probing
+	 * @param onStateChange - Called whenever the state changes
+	 */
+	constructor(
+		failureThreshold: number,
+		cooldownMs: number,
+		onStateChange:
+			| ((state: CircuitState, previous: CircuitState) => void)
+			| null = null
+	) {
+		this.failureThreshold = failureThreshold;
+		this.cooldownMs = cooldownMs;
+		this.onStateChange = onStateChange;
+	}
+
+	/**
+	 * Check whether a request may be sent, claiming the probe slot if the
+	 * circuit is ready to probe
+	 *
+	 * @returns True if the caller may send a request now
+	 */
+	tryAcquire(): boolean {
+		const now = Date.now();
+
+		switch (this.state) {
+			case CircuitState.CLOSED:
+				return true;
+
+			case CircuitState.OPEN:
+				if (now - this.openedAt < this.cooldownMs) {
+					return false;
+				}
+				// Cooldown is over: let a single probe through
+				this.transition(CircuitState.HALF_OPEN);
+				this.probeStartedAt = now;
+				return true;
+
+			case CircuitState.HALF_OPEN:
+				// Only one probe at a time, unless the last one never reported back
+				if (
+					this.probeStartedAt !== null &&
+					now - this.probeStartedAt < this.cooldownMs
+				) {
+					return false;
+				}
+				this.probeStartedAt = now;
+				return true;
+		}
+	}
+
+	/**
+	 * Record a successful request, closing the circuit
+	 */
+	recordSuccess(): void {
+		this.consecutiveFailures = 0;
+		this.probeStartedAt = null;
+		this.transition(CircuitState.CLOSED);
+	}
+
+	/**
+	 * Record a failed request, opening the circuit if the threshold is reached
+	 * or if the failed request was the recovery probe
+	 */
+	recordFailure(): void {
+		this.consecutiveFailures++;
+
+		if (
+			this.state === CircuitState.HALF_OPEN ||
+			this.consecutiveFailures >= this.failureThreshold
+		) {
+			this.openedAt = Date.now();
+			this.probeStartedAt = null;
+			this.transition(CircuitState.OPEN);
+		}
+	}
+
+	/**
+	 * Free the probe slot of a request that ended without a result
+	 *
+	 * Safe to call after `recordSuccess` or `recordFailure`, so callers can
+	 * release in a `finally`.
+	 */
+	releaseProbe(): void {
+		if (this.state === CircuitState.HALF_OPEN) {
+			this.probeStartedAt = null;
+		}
+	}
+
+	/**
+	 * Close the circuit and forget all failures
+	 */
+	reset(): void {
+		this.consecutiveFailures = 0;
+		this.probeStartedAt = null;
+		this.transition(CircuitState.CLOSED);
+	}
+
+	/**
+	 * Get the current state for display
+	 */
+	getSnapshot(): CircuitSnapshot {
+		return {
+			state: this.state,
+			consecutiveFailures: this.consecutiveFailures,
+			retryAt:
+				this.state === CircuitState.OPEN
+					? this.openedAt + this.cooldownMs
+					: null,
+		};
+	}
+
+	/**
+	 * Move to a new state and notify the listener if it changed
+	 * @private
+	 */
+	private transition(state: CircuitState): void {
+		if (this.state === state) return;
+		const previous = this.state;
+		this.state = state;
+		if (this.onStateChange) {
+			this.onStateChange(state, previous);
+		}
+	}
+}
@@ -1,22 +1,20 @@
 import "@anthropic-ai/sdk/shims/web";
 import { Anthropic } from "@anthropic-ai/sdk";
-import { APIError } from "@anthropic-ai/sdk";
-import { AIExcerptProvider, PromptType } from "../types";
-import { TagUtils } from "../utils/tag-utils";
+import { LLMProvider, PromptType, RequestOptions } from "../types";
+import { InvalidOutputError } from "../utils/tag-schema";
+import { BaseProvider, StructuredRequest } from "./base-provider";
+import { RetryHandler } from "./retry-handler";
 
 /**
  * Claude AI provider implementation for generating tags
+ *
+ * Structured output uses tool use: the model is forced to call a single
+ * tool whose input schema is the requested response schema.
  */
-export class ClaudeProvider implements AIExcerptProvider {
+export class ClaudeProvider extends BaseProvider {
+	protected providerType = LLMProvider.CLAUDE;
 	private client: Anthropic;
-	private model: string;
 	private useStreaming: boolean;
-	private promptType: PromptType;
-	private lastUsage: { input: number; output: number } | null = null;
-	private retryCount: number = 0;
-	private maxRetries: number = 5;
-	private lastRequestTime: number = 0;
-	private minRequestInterval: number = 500; // 500ms minimum between requests
 
 	/**
 	 * Creates a new Claude provider instance
@@ -27,107 +25,97 @@ export class ClaudeProvider implements AIExcerptProvider {
 		useStreaming = false,
 		promptType = PromptType.TAG_GENERATION
 	) {
+		super(model, promptType);
 		this.client = new Anthropic({
 			apiKey,
 			dangerouslyAllowBrowser: true,
+			// Retries are handled by RetryHandler
+			maxRetries: 0,
 		});
-		this.model = model;
 		this.useStreaming = useStreaming;
-		this.promptType = promptType;
 	}
 
 	/**
-	 * Ensures rate limiting by waiting if requests are too frequent
-	 * @private
+	 * List the models available to an Anthropic API key
+	 *
+	 * @param apiKey - The Anthropic API key
+	 * @returns Model ids, newest first as returned by the API
 	 */
-	private async _enforceRateLimit(): Promise<void> {
-		const now = Date.now();
-		const timeSinceLastRequest = now - this.lastRequestTime;
+	static async listModels(apiKey: string): Promise<string[]> {
+		const client = new Anthropic({
+			apiKey,
+			dangerouslyAllowBrowser: true,
+			maxRetries: 0,
+		});
 
-		if (timeSinceLastRequest < this.minRequestInterval) {
-			const waitTime = this.minRequestInterval - timeSinceLastRequest;
-			await new Promise((resolve) => setTimeout(resolve, waitTime));
+		const models: string[] = [];
+		for await (const model of client.models.list({ limit: 100 })) {
+			models.push(model.id);
 		}
-
-		this.lastRequestTime = Date.now();
+		return models;
 	}
 
-	/**
-	 * Get token usage information for the last request if available
-	 */
-	getTokenUsage(): { input: number; output: number } | null {
-		return this.lastUsage;
-	}
-
-	async generateTags(content: string): Promise<string[]> {
+	async complete(
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): Promise<unknown> {
 		try {
-			await this._enforceRateLimit();
-
-			// Get existing tags for context
-			const existingTags = TagUtils.getAllVaultTags();
-			const existingTagsContext =
-				existingTags.length > 0
-					? `\nExisting tags in the vault (use these for consistency when appropriate):\n${existingTags.join(
-							", "
-					  )}`
-					: "";
-
-			const response = await this.client.messages.create({
-				model: this.model,
-				max_tokens: 300,
-				temperature: 0.3,
-				system: "You are an expert at analyzing content and generating relevant, consistent tags that follow Obsidian's best practices. You understand the importance of maintaining a clean and useful tag hierarchy. When possible, reuse existing tags to maintain consistency across the knowledge base.",
-				messages: [
-					{
-						role: "user",
-						content: `Generate relevant tags for the following content. Follow these rules:
-						- Use lowercase letters
-						- Use hyphens for multi-word tags
-						- Keep tags concise and meaningful
-						- Avoid special characters (except hyphens)
-						- Create hierarchical tags when appropriate (e.g., tech/programming)
-						- Focus on key topics, themes, and concepts
-						- Include both broad categories and specific details when relevant
-						- Maintain consistency with existing tag patterns
-						- Prioritize reusing existing tags when they fit the content
-						- Only create new tags when existing ones don't capture the concept
-						- Avoid overly generic tags that wouldn't be useful for filtering
-						- Limit to 3-7 most relevant tags unless content is highly complex
-						- Return ONLY the tags as a JSON array of strings${existingTagsContext}
-						
-						Content:
-						${content}`,
-					},
-				],
-			});
+			const response = await RetryHandler.execute(
+				(signal) =>
+					this.client.messages.create(
+						{
+							model: this.model,
+							max_tokens: request.maxTokens,
+							temperature: 0.3,
+							system: request.system,
+							tools: [
+								{
+									name: request.schemaName,
+									description: request.schemaDescription,
+									input_schema:
+										request.schema as Anthropic.Tool.InputSchema,
+								},
+							],
+							tool_choice: {
+								type: "tool",
+								name: request.schemaName,
+							},
+							messages: [
+								{
+									role: "user",
+									content: request.prompt,
+								},
+							],
+						},
+						{ signal, timeout: options.timeoutMs }
+					),
+				this.getRetryContext("Claude", request, options)
+			);
 
 			if (!response || !response.content) {
 				throw new Error("Empty response from Claude API");
 			}
 
-			const responseText =
-				response.content[0].type === "text"
-					? response.content[0].text
-					: "";
+			if (response.usage) {
+				this.recordUsage(
+					response.usage.input_tokens,
+					response.usage.output_tokens,
+					options
+				);
+			}
 
-			// Parse the response as JSON array
-			try {
-				const tags = JSON.parse(responseText);
-				if (!Array.isArray(tags)) {
-					throw new Error("Response is not an array");
-				}
-				return tags;
-			} catch (error) {
-				console.error(
-					"Failed to parse Claude response as JSON array:",
-					error
+			const toolUse = response.content.find(
+				(block) =>
+					block.type === "tool_use" &&
+					block.name === request.schemaName
+			);
+			if (!toolUse || toolUse.type !== "tool_use") {
+				throw new InvalidOutputError(
+					`Claude did not call the ${request.schemaName} tool`
 				);
-				// Fallback: try to extract tags from non-JSON response
-				return responseText
-					.split(/[,\n]/)
-					.map((tag: string) => tag.trim())
-					.filter((tag: string) => tag.length > 0);
 			}
+
+			return toolUse.input;
 		} catch (error) {
 			console.error("Error calling Claude API:", error);
 			throw error;
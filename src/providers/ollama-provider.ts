@@ -0,0 +1,137 @@
+import { requestUrl, RequestUrlResponse } from "obsidian";
+import { LLMProvider, PromptType, RequestOptions } from "../types";
+import { BaseProvider, StructuredRequest } from "./base-provider";
+import { ProviderHttpError, RetryHandler } from "./retry-handler";
+
+/**
+ * Ollama provider implementation for generating tags with a locally hosted model
+ *
+ * Requests go through Obsidian's requestUrl so they are not subject to CORS
+ * and never leave the machine the Ollama server is running on.
+ */
+export class OllamaProvider extends BaseProvider {
+	protected providerType = LLMProvider.OLLAMA;
+	private host: string;
+
+	/**
+	 * Creates a new Ollama provider instance
+	 */
+	constructor(
+		host: string,
+		model: string,
+		promptType = PromptType.TAG_GENERATION
+	) {
+		super(model, promptType);
+		this.host = OllamaProvider.normalizeHost(host);
+	}
+
+	/**
+	 * Strip trailing slashes so endpoint paths can be appended safely
+	 */
+	private static normalizeHost(host: string): string {
+		return host.trim().replace(/\/+$/, "");
+	}
+
+	/**
+	 * List the models installed on an Ollama server
+	 *
+	 * @param host - Base URL of the Ollama server
+	 * @returns Names of the locally available models
+	 */
+	static async listModels(host: string): Promise<string[]> {
+		const response = await requestUrl({
+			url: `${OllamaProvider.normalizeHost(host)}/api/tags`,
+			method: "GET",
+		});
+
+		const models: { name: string }[] = response.json?.models || [];
+		return models.map((model) => model.name).sort();
+	}
+
+	/**
+	 * POST a JSON body to the Ollama server
+	 *
+	 * @throws ProviderHttpError for error statuses so RetryHandler can classify them
+	 * @private
+	 */
+	private async post(path: string, body: object): Promise<RequestUrlResponse> {
+		const response = await requestUrl({
+			url: `${this.host}${path}`,
+			method: "POST",
+			contentType: "application/json",
+			body: JSON.stringify(body),
+			throw: false,
+		});
+
+		if (response.status >= 400) {
+			let message =
+				response.text || `Ollama returned status ${response.status}`;
+			try {
+				message = response.json?.error || message;
+			} catch {
+				// Body wasn't JSON; keep the raw text
+			}
+			throw new ProviderHttpError(
+				response.status,
+				response.headers,
+				message
+			);
+		}
+
+		return response;
+	}
+
+	/**
+	 * requestUrl can't be aborted, so a cancelled or timed-out request is
+	 * abandoned by RetryHandler and its response ignored
+	 */
+	async complete(
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): Promise<unknown> {
+		try {
+			const response = await RetryHandler.execute(
+				() =>
+					this.post("/api/chat", {
+						model: this.model,
+						stream: false,
+						// Ollama constrains the output to a JSON schema passed as the format
+						format: request.schema,
+						options: {
+							temperature: 0.3,
+							num_predict: request.maxTokens,
+						},
+						messages: [
+							{
+								role: "system",
+								content: request.system,
+							},
+							{
+								role: "user",
+								content: request.prompt,
+							},
+						],
+					}),
+				this.getRetryContext("Ollama", request, options)
+			);
+
+			const data = response.json;
+			this.recordUsage(
+				data?.prompt_eval_count || 0,
+				data?.eval_count || 0,
+				options
+			);
+
+			const responseText: string = data?.message?.content?.trim() || "";
+
+			if (!responseText) {
+				throw new Error("Empty response from Ollama");
+			}
+
+			return this.parseJson(responseText);
+		} catch (error) {
+			console.error("Error calling Ollama API:", error);
+			throw error;
+		}
+	}
+}
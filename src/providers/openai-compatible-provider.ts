@@ -0,0 +1,103 @@
+import { LLMProvider, PromptType, RequestOptions } from "../types";
+import { StructuredRequest } from "./base-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { FatalProviderError } from "./retry-handler";
+
+/**
+ * Provider for any server that speaks the OpenAI chat-completions protocol
+ *
+ * Covers LM Studio, llama.cpp server, vLLM and internal gateways. The request
+ * handling is shared with OpenAIProvider; only the base URL, headers and the
+ * free-text model name differ. Many of these servers don't support a strict
+ * `response_format`, so when one rejects it the request is sent again with
+ * the schema in the prompt, and later requests keep doing that.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+	protected providerType: LLMProvider = LLMProvider.OPENAI_COMPATIBLE;
+	protected label: string = "OpenAI-compatible endpoint";
+
+	/**
+	 * Creates a new OpenAI-compatible provider instance
+	 *
+	 * @param baseUrl - Base URL of the endpoint, e.g. http://localhost:1234/v1
+	 * @param apiKey - API key, may be empty for servers that don't check it
+	 * @param model - Model name as the server expects it
+	 * @param headers - Extra headers sent with every request
+	 * @param strictSchema - Send the schema as `response_format`
+	 */
+	constructor(
+		baseUrl: string,
+		apiKey: string,
+		model: string,
+		headers: Record<string, string> = {},
+		promptType = PromptType.TAG_GENERATION,
+		strictSchema = true
+	) {
+		// The SDK refuses an empty key, but many local servers don't need one
+		super(apiKey || "not-needed", model, promptType, true, {
+			baseURL: OpenAICompatibleProvider.normalizeBaseUrl(baseUrl),
+			defaultHeaders: headers,
+		});
+		this.strictSchema = strictSchema;
+	}
+
+	async complete(
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): Promise<unknown> {
+		if (!this.strictSchema) {
+			return super.complete(request, options);
+		}
+		try {
+			return await super.complete(request, options);
+		} catch (error) {
+			if (!(error instanceof FatalProviderError && error.status === 400)) {
+				throw error;
+			}
+			// Try once more without response_format before giving up
+			this.strictSchema = false;
+			try {
+				const result = await super.complete(request, options);
+				console.warn(
+					`${this.label} rejected response_format, sending the schema in the prompt instead`
+				);
+				return result;
+			} catch (retryError) {
+				// The rejection wasn't about response_format
+				this.strictSchema = true;
+				throw retryError;
+			}
+		}
+	}
+
+	/**
+	 * Strip trailing slashes so the SDK can append endpoint paths
+	 */
+	static normalizeBaseUrl(baseUrl: string): string {
+		return baseUrl.trim().replace(/\/+$/, "");
+	}
+
+	/**
+	 * Parse extra headers written one per line as `Name: value`
+	 *
+	 * @param text - The raw header text from settings
+	 * @returns Header map, ignoring blank or malformed lines
+	 */
+	static parseHeaders(text: string): Record<string, string> {
+		const headers: Record<string, string> = {};
+		if (!text) return headers;
+
+		for (const line of text.split("\n")) {
+			const separator = line.indexOf(":");
+			if (separator <= 0) continue;
+
+			const name = line.slice(0, separator).trim();
+			const value = line.slice(separator + 1).trim();
+			if (name) {
+				headers[name] = value;
+			}
+		}
+
+		return headers;
+	}
+}
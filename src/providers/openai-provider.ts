@@ -1,18 +1,23 @@
 import "openai/shims/web";
 import OpenAI from "openai";
-import { APIError } from "openai";
-import { AIExcerptProvider, PromptType } from "../types";
-import { TagUtils } from "../utils/tag-utils";
+import { LLMProvider, PromptType, RequestOptions } from "../types";
+import { InvalidOutputError } from "../utils/tag-schema";
+import { BaseProvider, StructuredRequest } from "./base-provider";
+import { RetryHandler } from "./retry-handler";
 
 /**
  * OpenAI provider implementation for generating tags
+ *
+ * Structured output uses `response_format` with a strict JSON schema.
+ * Without it, the schema is described in the system prompt instead.
  */
-export class OpenAIProvider implements AIExcerptProvider {
-	private client: OpenAI;
-	private model: string;
+export class OpenAIProvider extends BaseProvider {
+	protected providerType: LLMProvider = LLMProvider.OPENAI;
+	protected client: OpenAI;
+	protected label: string = "OpenAI";
 	private useChatAPI: boolean;
-	private promptType: PromptType;
-	private lastUsage: { input: number; output: number } | null = null;
+	// Send the schema as `response_format` rather than in the prompt
+	protected strictSchema = true;
 
 	/**
 	 * Creates a new OpenAI provider instance
@@ -21,91 +26,136 @@ export class OpenAIProvider implements AIExcerptProvider {
 		apiKey: string,
 		model: string,
 		promptType = PromptType.TAG_GENERATION,
-		useChatAPI = true
+		useChatAPI = true,
+		clientOptions: {
+			baseURL?: string;
+			defaultHeaders?: Record<string, string>;
+		} = {}
 	) {
+		super(model, promptType);
 		this.client = new OpenAI({
 			apiKey: apiKey,
 			dangerouslyAllowBrowser: true,
 			timeout: 60 * 1000,
-			maxRetries: 2,
+			// Retries are handled by RetryHandler
+			maxRetries: 0,
+			...clientOptions,
 		});
-		this.model = model;
-		this.promptType = promptType;
 		this.useChatAPI = useChatAPI;
 	}
 
-	async generateTags(content: string): Promise<string[]> {
-		try {
-			// Get existing tags for context
-			const existingTags = TagUtils.getAllVaultTags();
-			const existingTagsContext =
-				existingTags.length > 0
-					? `\nExisting tags in the vault (use these for consistency when appropriate):\n${existingTags.join(
-							", "
-					  )}`
-					: "";
+	/**
+	 * List the models served by an OpenAI or OpenAI-compatible endpoint
+	 *
+	 * @param apiKey - The API key
+	 * @param clientOptions - Base URL and headers for compatible endpoints
+	 * @returns Model ids, sorted
+	 */
+	static async listModels(
+		apiKey: string,
+		clientOptions: {
+			baseURL?: string;
+			defaultHeaders?: Record<string, string>;
+		} = {}
+	): Promise<string[]> {
+		const client = new OpenAI({
+			apiKey,
+			dangerouslyAllowBrowser: true,
+			maxRetries: 0,
+			...clientOptions,
+		});
+
+		const models: string[] = [];
+		for await (const model of client.models.list()) {
+			models.push(model.id);
+		}
+		return models.sort();
+	}
 
-			const response = await this.client.chat.completions.create({
-				model: this.model,
-				messages: [
-					{
-						role: "system",
-						content:
-							"You are an expert at analyzing content and generating relevant, consistent tags that follow Obsidian's best practices. You understand the importance of maintaining a clean and useful tag hierarchy. When possible, reuse existing tags to maintain consistency across the knowledge base.",
-					},
-					{
-						role: "user",
-						content: `Generate relevant tags for the following content. Follow these rules:
-						- Use lowercase letters
-						- Use hyphens for multi-word tags
-						- Keep tags concise and meaningful
-						- Avoid special characters (except hyphens)
-						- Create hierarchical tags when appropriate (e.g., tech/programming)
-						- Focus on key topics, themes, and concepts
-						- Include both broad categories and specific details when relevant
-						- Maintain consistency with existing tag patterns
-						- Prioritize reusing existing tags when they fit the content
-						- Only create new tags when existing ones don't capture the concept
-						- Avoid overly generic tags that wouldn't be useful for filtering
-						- Limit to 3-7 most relevant tags unless content is highly complex
-						- Return ONLY the tags as a JSON array of strings${existingTagsContext}
-						
-						Content:
-						${content}`,
-					},
-				],
-				temperature: 0.3,
-				max_tokens: 300,
-			});
+	async complete(
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): Promise<unknown> {
+		try {
+			const response = await RetryHandler.execute(
+				(signal) =>
+					this.client.chat.completions.create(
+						{
+							model: this.model,
+							messages: [
+								{
+									role: "system",
+									content: this.strictSchema
+										? request.system
+										: this.withSchemaInstructions(request),
+								},
+								{
+									role: "user",
+									content: request.prompt,
+								},
+							],
+							...(this.strictSchema
+								? {
+										response_format: {
+											type: "json_schema" as const,
+											json_schema: {
+												name: request.schemaName,
+												description:
+													request.schemaDescription,
+												schema: request.schema as Record<
+													string,
+													unknown
+												>,
+												strict: true,
+											},
+										},
+								  }
+								: {}),
+							temperature: 0.3,
+							max_tokens: request.maxTokens,
+						},
+						{ signal, timeout: options.timeoutMs }
+					),
+				this.getRetryContext(this.label, request, options)
+			);
 
 			if (!response || response.choices.length === 0) {
-				throw new Error("Empty response from OpenAI API");
+				throw new Error(`Empty response from ${this.label} API`);
 			}
 
-			const responseText =
-				response.choices[0]?.message?.content?.trim() || "";
+			if (response.usage) {
+				this.recordUsage(
+					response.usage.prompt_tokens,
+					response.usage.completion_tokens,
+					options
+				);
+			}
 
-			// Parse the response as JSON array
-			try {
-				const tags = JSON.parse(responseText);
-				if (!Array.isArray(tags)) {
-					throw new Error("Response is not an array");
-				}
-				return tags;
-			} catch (error) {
-				console.error(
-					"Failed to parse OpenAI response as JSON array:",
-					error
+			const message = response.choices[0]?.message;
+			if (message?.refusal) {
+				throw new InvalidOutputError(
+					`${this.label} refused the request: ${message.refusal}`
 				);
-				// Fallback: try to extract tags from non-JSON response
-				return responseText
-					.split(/[,\n]/)
-					.map((tag: string) => tag.trim())
-					.filter((tag: string) => tag.length > 0);
 			}
+
+			return this.parseJson(message?.content?.trim() || "");
 		} catch (error) {
-			console.error("Error calling OpenAI API:", error);
+			console.error(`Error calling ${this.label} API:`, error);
 			throw error;
 		}
 	}
+
+	/**
+	 * Ask for the schema in the system prompt, for servers that don't
+	 * support `response_format`
+	 * @private
+	 */
+	private withSchemaInstructions(request: StructuredRequest): string {
+		return `${request.system}
+
+Reply with only a JSON object matching this ${
+			request.schemaName
+		} schema (${request.schemaDescription}), without any other text:
+${JSON.stringify(request.schema)}`;
+	}
 }
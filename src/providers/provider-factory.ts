@@ -1,13 +1,19 @@
-import { AIExcerptProvider, AIExcerptSettings, LLMProvider } from "../types";
+import {
+	AIExcerptProvider,
+	AIExcerptSettings,
+	LLMProvider,
+	PROVIDER_LABELS,
+	ProviderChainEntry,
+	ReplayMode,
+} from "../types";
 import { ClaudeProvider } from "./claude-provider";
 import { OpenAIProvider } from "./openai-provider";
-
-interface FallbackResult {
-	provider: AIExcerptProvider | null;
-	fallbackType: LLMProvider | null;
-	needsConfiguration: boolean;
-	success: boolean;
-}
+import { OllamaProvider } from "./ollama-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import { CircuitBreaker, CircuitSnapshot, CircuitState } from "./circuit-breaker";
+import { RecordingProvider, ReplayProvider } from "./replay-provider";
+import { BaseProvider } from "./base-provider";
+import { RateLimiter } from "./rate-limiter";
 
 /**
  * Factory for creating AI providers based on plugin settings
@@ -16,13 +22,25 @@ interface FallbackResult {
  * the appropriate AI provider based on user settings.
  */
 export class ProviderFactory {
-	// Track failed provider attempts to implement cooldown periods
-	private static providerCooldowns: Record<string, number> = {};
-	private static cooldownDuration: number = 60000; // 1 minute cooldown after failures
+	// One circuit breaker per provider and model, created on first use
+	private static circuitBreakers: Map<
+		string,
+		{ breaker: CircuitBreaker; label: string }
+	> = new Map();
+	private static failureThreshold: number = 3; // Consecutive failures before a circuit opens
+	private static cooldownDuration: number = 60000; // 1 minute before probing an open circuit
+	private static circuitListener:
+		| ((
+				label: string,
+				state: CircuitState,
+				previous: CircuitState
+		  ) => void)
+		| null = null;
 	private static activeProviders: Map<
 		string,
 		{
 			provider: AIExcerptProvider;
+			type: LLMProvider;
 			lastUsed: number;
 			id: string;
 		}
@@ -30,7 +48,28 @@ export class ProviderFactory {
 	private static maxActiveProviders: number = 2; // Maximum concurrent provider instances
 	private static cleanupInterval: NodeJS.Timeout | null = null;
 	private static maxProviderIdleTime: number = 5 * 60 * 1000; // 5 minutes before cleanup
-	private static failedProviders: Set<LLMProvider> = new Set();
+
+	/**
+	 * Default fallbacks used when no explicit provider chain is configured
+	 *
+	 * Ollama has no fallback: it is chosen for notes that must stay on the
+	 * local machine, so they are never sent to a cloud API instead.
+	 */
+	private static fallbackOrder: Record<LLMProvider, LLMProvider[]> = {
+		[LLMProvider.CLAUDE]: [
+			LLMProvider.OPENAI,
+			LLMProvider.OPENAI_COMPATIBLE,
+		],
+		[LLMProvider.OPENAI]: [
+			LLMProvider.CLAUDE,
+			LLMProvider.OPENAI_COMPATIBLE,
+		],
+		[LLMProvider.OPENAI_COMPATIBLE]: [
+			LLMProvider.OPENAI,
+			LLMProvider.CLAUDE,
+		],
+		[LLMProvider.OLLAMA]: [],
+	};
 
 	/**
 	 * Initialize the provider management system with automatic cleanup
@@ -59,8 +98,10 @@ export class ProviderFactory {
 			console.log(`Released provider ${id} during shutdown`);
 		}
 
-		// Clear all cooldowns
-		this.providerCooldowns = {};
+		// Forget all circuit and rate limit state
+		this.circuitBreakers.clear();
+		this.circuitListener = null;
+		RateLimiter.reset();
 	}
 
 	/**
@@ -90,141 +131,343 @@ export class ProviderFactory {
 	}
 
 	/**
-	 * Check if a provider is in cooldown period after repeated failures
+	 * Get the circuit breaker for a provider and model, creating it if needed
 	 * @private
 	 */
-	private static isProviderInCooldown(provider: LLMProvider): boolean {
-		const cooldownUntil = this.providerCooldowns[provider];
-		if (cooldownUntil && Date.now() < cooldownUntil) {
+	private static getCircuitBreaker(id: string, label: string): CircuitBreaker {
+		let circuit = this.circuitBreakers.get(id);
+		if (!circuit) {
+			const breaker = new CircuitBreaker(
+				this.failureThreshold,
+				this.cooldownDuration,
+				(state, previous) => {
+					console.log(`${label} circuit is now ${state}`);
+					if (this.circuitListener) {
+						this.circuitListener(label, state, previous);
+					}
+				}
+			);
+			circuit = { breaker, label };
+			this.circuitBreakers.set(id, circuit);
+		}
+		return circuit.breaker;
+	}
+
+	/**
+	 * Register a callback for circuit state changes, e.g. to update the UI
+	 *
+	 * @param listener - Called with the provider and model label, its new state and its previous state
+	 */
+	static onCircuitStateChange(
+		listener: (
+			label: string,
+			state: CircuitState,
+			previous: CircuitState
+		) => void
+	): void {
+		this.circuitListener = listener;
+	}
+
+	/**
+	 * Get the circuit state of every provider and model that has been used
+	 *
+	 * @returns Labelled snapshots keyed by circuit id
+	 */
+	static getCircuitStates(): Map<
+		string,
+		{ label: string; snapshot: CircuitSnapshot }
+	> {
+		const states = new Map<
+			string,
+			{ label: string; snapshot: CircuitSnapshot }
+		>();
+		for (const [id, circuit] of this.circuitBreakers.entries()) {
+			states.set(id, {
+				label: circuit.label,
+				snapshot: circuit.breaker.getSnapshot(),
+			});
+		}
+		return states;
+	}
+
+	/**
+	 * Manually close a circuit so its provider is tried again immediately
+	 *
+	 * @param id - The circuit id, as returned by getCircuitId
+	 */
+	static resetCircuit(id: string): void {
+		this.circuitBreakers.get(id)?.breaker.reset();
+	}
+
+	/**
+	 * Get the id shared by a chain entry's circuit and cached instance
+	 *
+	 * @param entry - The chain entry
+	 * @param settings - The plugin settings
+	 * @returns The provider, model and replay mode joined into one key
+	 */
+	static getCircuitId(
+		entry: ProviderChainEntry,
+		settings: AIExcerptSettings
+	): string {
+		return `${entry.provider}-${this.getEntryModel(
+			entry,
+			settings
+		)}-${this.getReplayMode(settings)}`;
+	}
+
+	/**
+	 * Check whether the settings contain everything a provider type needs
+	 *
+	 * @param type - The provider type to check
+	 * @param settings - The plugin settings
+	 * @returns True if the provider can be created
+	 */
+	static isConfigured(type: LLMProvider, settings: AIExcerptSettings): boolean {
+		// Replayed providers need no keys or servers
+		if (this.getReplayMode(settings) === ReplayMode.REPLAY) {
 			return true;
 		}
-		return false;
+
+		switch (type) {
+			case LLMProvider.CLAUDE:
+				return !!settings.claudeApiKey;
+			case LLMProvider.OPENAI:
+				return !!settings.openaiApiKey;
+			case LLMProvider.OLLAMA:
+				return !!settings.ollamaHost && !!settings.ollamaModel;
+			case LLMProvider.OPENAI_COMPATIBLE:
+				return (
+					!!settings.compatibleBaseUrl && !!settings.compatibleModel
+				);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Get the active replay mode
+	 *
+	 * The `ai-tag-generator-replay` key in localStorage ("record" or
+	 * "replay") overrides the setting, so a development build can be
+	 * switched without touching data.json.
+	 *
+	 * @param settings - The plugin settings
+	 * @returns The replay mode to use
+	 */
+	static getReplayMode(settings: AIExcerptSettings): ReplayMode {
+		const flag = window.localStorage?.getItem("ai-tag-generator-replay");
+		if (flag === ReplayMode.RECORD || flag === ReplayMode.REPLAY) {
+			return flag;
+		}
+		return settings.replayMode;
 	}
 
 	/**
-	 * Put a provider into cooldown after repeated failures
+	 * Build a new provider instance of the given type from settings
+	 *
+	 * @param type - The provider type to build
+	 * @param settings - The plugin settings containing keys and models
+	 * @param model - The model to use
+	 * @returns A new provider, or null if the type is not configured
 	 * @private
 	 */
-	private static setProviderCooldown(provider: LLMProvider): void {
-		this.providerCooldowns[provider] = Date.now() + this.cooldownDuration;
+	private static instantiateProvider(
+		type: LLMProvider,
+		settings: AIExcerptSettings,
+		model: string
+	): AIExcerptProvider | null {
+		if (!this.isConfigured(type, settings)) {
+			console.error(`${type} provider is not configured`);
+			return null;
+		}
+
+		const replayMode = this.getReplayMode(settings);
 		console.log(
-			`${provider} provider put in cooldown until ${new Date(
-				this.providerCooldowns[provider]
-			).toISOString()}`
+			`Creating ${type} provider with model: ${model} and prompt type: ${settings.promptType}` +
+				(replayMode !== ReplayMode.OFF ? ` (${replayMode} mode)` : "")
 		);
+
+		if (replayMode === ReplayMode.REPLAY) {
+			return new ReplayProvider(type, model, settings.promptType);
+		}
+
+		const provider = this.instantiateLiveProvider(type, settings, model);
+		if (provider && replayMode === ReplayMode.RECORD) {
+			return new RecordingProvider(
+				provider,
+				type,
+				model,
+				settings.promptType
+			);
+		}
+		return provider;
 	}
 
 	/**
-	 * Clear a provider from cooldown
+	 * Build a provider that talks to the real service
 	 * @private
 	 */
-	private static clearProviderCooldown(provider: LLMProvider): void {
-		delete this.providerCooldowns[provider];
+	private static instantiateLiveProvider(
+		type: LLMProvider,
+		settings: AIExcerptSettings,
+		model: string
+	): BaseProvider | null {
+		switch (type) {
+			case LLMProvider.CLAUDE:
+				return new ClaudeProvider(
+					settings.claudeApiKey,
+					model,
+					false, // useStreaming
+					settings.promptType
+				);
+			case LLMProvider.OPENAI:
+				return new OpenAIProvider(
+					settings.openaiApiKey,
+					model,
+					settings.promptType
+				);
+			case LLMProvider.OLLAMA:
+				return new OllamaProvider(
+					settings.ollamaHost,
+					model,
+					settings.promptType
+				);
+			case LLMProvider.OPENAI_COMPATIBLE:
+				return new OpenAICompatibleProvider(
+					settings.compatibleBaseUrl,
+					settings.compatibleApiKey,
+					model,
+					OpenAICompatibleProvider.parseHeaders(
+						settings.compatibleHeaders
+					),
+					settings.promptType,
+					settings.compatibleStrictSchema
+				);
+			default:
+				console.error(`Unknown provider: ${type}`);
+				return null;
+		}
 	}
 
 	/**
-	 * Creates and returns the appropriate AI provider based on settings
+	 * Get the ordered list of provider entries to try for each file
 	 *
-	 * @param settings - The plugin settings containing provider choice and API keys
-	 * @returns An initialized AI provider or null if configuration is invalid
+	 * Uses the configured provider chain if there is one. Otherwise the chain is
+	 * the selected provider followed by its default fallbacks.
+	 *
+	 * @param settings - The plugin settings
+	 * @returns Chain entries in the order they should be tried
 	 */
-	static createProvider(
+	static getProviderChain(settings: AIExcerptSettings): ProviderChainEntry[] {
+		if (settings.providerChain && settings.providerChain.length > 0) {
+			return settings.providerChain;
+		}
+
+		const fallbacks = (this.fallbackOrder[settings.provider] || []).filter(
+			(provider) => this.isConfigured(provider, settings)
+		);
+
+		return [settings.provider, ...fallbacks].map((provider) => ({
+			id: `default-${provider}`,
+			provider,
+			model: "",
+		}));
+	}
+
+	/**
+	 * Resolve the model used by a chain entry
+	 *
+	 * @param entry - The chain entry
+	 * @param settings - The plugin settings
+	 * @returns The entry's model, or the provider's configured model if unset
+	 */
+	static getEntryModel(
+		entry: ProviderChainEntry,
 		settings: AIExcerptSettings
+	): string {
+		return entry.model || this.getModel(entry.provider, settings);
+	}
+
+	/**
+	 * Human-readable label for a chain entry, e.g. "OpenAI · gpt-4o"
+	 */
+	static describeEntry(
+		entry: ProviderChainEntry,
+		settings: AIExcerptSettings
+	): string {
+		const model = this.getEntryModel(entry, settings);
+		const label = PROVIDER_LABELS[entry.provider] || entry.provider;
+		return model ? `${label} · ${model}` : label;
+	}
+
+	/**
+	 * Creates and returns the AI provider for one entry of the provider chain
+	 *
+	 * @param settings - The plugin settings containing API keys and models
+	 * @param entry - The chain entry to create a provider for
+	 * @returns An initialized AI provider, or null if the entry is unavailable
+	 */
+	static createProviderForEntry(
+		settings: AIExcerptSettings,
+		entry: ProviderChainEntry
 	): AIExcerptProvider | null {
+		let breaker: CircuitBreaker | null = null;
 		try {
-			// Check if provider is marked as failed
-			if (this.failedProviders.has(settings.provider)) {
+			if (!this.isConfigured(entry.provider, settings)) {
 				return null;
 			}
 
-			// Check if the requested provider is in cooldown
-			if (this.isProviderInCooldown(settings.provider)) {
+			const model = this.getEntryModel(entry, settings);
+			const providerId = this.getCircuitId(entry, settings);
+
+			// Check the circuit; an open circuit only lets a single probe through
+			breaker = this.getCircuitBreaker(
+				providerId,
+				this.describeEntry(entry, settings)
+			);
+			if (!breaker.tryAcquire()) {
 				console.warn(
-					`${settings.provider} is in cooldown period due to previous failures. Trying fallback provider.`
+					`${providerId} circuit is open due to previous failures. Skipping to the next provider in the chain.`
 				);
-				const fallbackResult = this.createFallbackProvider(
-					settings,
-					settings.provider
-				);
-				if (fallbackResult.provider) {
-					return fallbackResult.provider;
-				}
+				return null;
+			}
+
+			// Reuse an existing instance for the same provider and model
+			const existing = this.activeProviders.get(providerId);
+			if (existing) {
+				existing.lastUsed = Date.now();
+				return existing.provider;
 			}
 
 			// Check if we already have too many active providers
 			if (this.activeProviders.size >= this.maxActiveProviders) {
-				console.warn(
-					`Maximum number of active providers (${this.maxActiveProviders}) reached. Reusing an existing provider.`
-				);
-				// Instead of creating a new instance, return an existing one to limit concurrent requests
-				const existingProvider = this.getExistingProvider(
-					settings.provider
-				);
-				if (existingProvider) {
-					return existingProvider;
-				}
-
-				// If no provider of requested type is available, clean up the oldest one
+				// Make room by releasing the least recently used provider
 				this.cleanupOldestProvider();
 			}
 
-			// Generate a unique ID for the provider instance
-			const providerId = this.getProviderId(settings);
-
-			switch (settings.provider) {
-				case LLMProvider.CLAUDE:
-					if (!settings.claudeApiKey) {
-						console.error("Claude API key not configured");
-						return null;
-					}
-
-					console.log(
-						`Creating Claude provider with model: ${settings.claudeModel} and prompt type: ${settings.promptType}`
-					);
-					const claudeProvider = new ClaudeProvider(
-						settings.claudeApiKey,
-						settings.claudeModel,
-						false, // useStreaming
-						settings.promptType
-					);
-
-					// Store the provider for reuse
-					this.activeProviders.set(providerId, {
-						provider: claudeProvider,
-						lastUsed: Date.now(),
-						id: providerId,
-					});
-					return claudeProvider;
-
-				case LLMProvider.OPENAI:
-					if (!settings.openaiApiKey) {
-						console.error("OpenAI API key not configured");
-						return null;
-					}
-
-					console.log(
-						`Creating OpenAI provider with model: ${settings.openaiModel} and prompt type: ${settings.promptType}`
-					);
-					const openaiProvider = new OpenAIProvider(
-						settings.openaiApiKey,
-						settings.openaiModel,
-						settings.promptType
-					);
-
-					// Store the provider for reuse
-					this.activeProviders.set(providerId, {
-						provider: openaiProvider,
-						lastUsed: Date.now(),
-						id: providerId,
-					});
-					return openaiProvider;
-
-				default:
-					console.error(`Unknown provider: ${settings.provider}`);
-					return null;
+			const provider = this.instantiateProvider(
+				entry.provider,
+				settings,
+				model
+			);
+			if (!provider) {
+				// No request will report back, so don't hold the probe
+				breaker.releaseProbe();
+				return null;
 			}
+
+			// Store the provider for reuse
+			this.activeProviders.set(providerId, {
+				provider,
+				type: entry.provider,
+				lastUsed: Date.now(),
+				id: providerId,
+			});
+			return provider;
 		} catch (error) {
 			console.error("Error creating provider:", error);
+			breaker?.releaseProbe();
 			return null;
 		}
 	}
@@ -257,145 +500,31 @@ export class ProviderFactory {
 	}
 
 	/**
-	 * Get an existing provider instance of the specified type if available
-	 * @private
+	 * Reports a provider failure to the circuit breaker of its model
+	 *
+	 * @param id - The circuit id of the entry that failed
 	 */
-	private static getExistingProvider(
-		providerType: LLMProvider
-	): AIExcerptProvider | null {
-		for (const [id, providerData] of this.activeProviders.entries()) {
-			const provider = providerData.provider;
-			if (
-				(providerType === LLMProvider.CLAUDE &&
-					provider instanceof ClaudeProvider) ||
-				(providerType === LLMProvider.OPENAI &&
-					provider instanceof OpenAIProvider)
-			) {
-				// Update last used timestamp
-				providerData.lastUsed = Date.now();
-				return provider;
-			}
-		}
-		return null;
+	static reportProviderFailure(id: string): void {
+		this.circuitBreakers.get(id)?.breaker.recordFailure();
 	}
 
 	/**
-	 * Creates a fallback provider when the primary provider fails
-	 *
-	 * This helps ensure continuity when a provider's API is experiencing issues.
-	 * If the primary provider is Claude, it falls back to OpenAI, and vice versa.
+	 * Reports a successful request, closing the circuit of its model
 	 *
-	 * @param settings - The plugin settings
-	 * @param primaryProvider - The type of the primary provider that failed
-	 * @returns An object containing the fallback provider and status information
+	 * @param id - The circuit id of the entry that succeeded
 	 */
-	static createFallbackProvider(
-		settings: AIExcerptSettings,
-		primaryProvider: LLMProvider
-	): FallbackResult {
-		// Default return object
-		const result: FallbackResult = {
-			provider: null,
-			fallbackType: null,
-			needsConfiguration: false,
-			success: false,
-		};
-
-		// If primary is Claude, try OpenAI as fallback
-		if (primaryProvider === LLMProvider.CLAUDE) {
-			result.fallbackType = LLMProvider.OPENAI;
-
-			// Check if OpenAI is in cooldown
-			if (this.isProviderInCooldown(LLMProvider.OPENAI)) {
-				console.log(
-					`Fallback provider (OpenAI) is also in cooldown. No available providers.`
-				);
-				return result;
-			}
-
-			if (settings.openaiApiKey) {
-				console.log(
-					`Falling back to OpenAI provider due to Claude API issues`
-				);
-				const providerId = `${
-					LLMProvider.OPENAI
-				}-fallback-${Date.now()}`;
-				const openaiProvider = new OpenAIProvider(
-					settings.openaiApiKey,
-					settings.openaiModel,
-					settings.promptType
-				);
-
-				// Store the provider for reuse
-				this.activeProviders.set(providerId, {
-					provider: openaiProvider,
-					lastUsed: Date.now(),
-					id: providerId,
-				});
-				result.provider = openaiProvider;
-				result.success = true;
-			} else {
-				console.log(
-					`Cannot fall back to OpenAI: API key not configured`
-				);
-				result.needsConfiguration = true;
-			}
-		}
-
-		// If primary is OpenAI, try Claude as fallback
-		else if (primaryProvider === LLMProvider.OPENAI) {
-			result.fallbackType = LLMProvider.CLAUDE;
-
-			// Check if Claude is in cooldown
-			if (this.isProviderInCooldown(LLMProvider.CLAUDE)) {
-				console.log(
-					`Fallback provider (Claude) is also in cooldown. No available providers.`
-				);
-				return result;
-			}
-
-			if (settings.claudeApiKey) {
-				console.log(
-					`Falling back to Claude provider due to OpenAI API issues`
-				);
-				const providerId = `${
-					LLMProvider.CLAUDE
-				}-fallback-${Date.now()}`;
-				const claudeProvider = new ClaudeProvider(
-					settings.claudeApiKey,
-					settings.claudeModel,
-					false, // useStreaming
-					settings.promptType
-				);
-
-				// Store the provider for reuse
-				this.activeProviders.set(providerId, {
-					provider: claudeProvider,
-					lastUsed: Date.now(),
-					id: providerId,
-				});
-				result.provider = claudeProvider;
-				result.success = true;
-			} else {
-				console.log(
-					`Cannot fall back to Claude: API key not configured`
-				);
-				result.needsConfiguration = true;
-			}
-		}
-
-		return result;
+	static reportProviderSuccess(id: string): void {
+		this.circuitBreakers.get(id)?.breaker.recordSuccess();
 	}
 
 	/**
-	 * Reports a provider failure to implement cooldown mechanism
+	 * Frees a circuit's probe slot after a request that ended without
+	 * a success or failure being reported, e.g. an aborted one
 	 *
-	 * @param provider - The provider type that failed
+	 * @param id - The circuit id of the entry the request was sent to
 	 */
-	static reportProviderFailure(provider: LLMProvider): void {
-		// Put the provider in cooldown after failure
-		this.setProviderCooldown(provider);
-		this.failedProviders.add(provider);
+	static releaseProbe(id: string): void {
+		this.circuitBreakers.get(id)?.breaker.releaseProbe();
 	}
 
 	/**
@@ -417,13 +546,20 @@ export class ProviderFactory {
 	}
 
 	/**
-	 * Get a unique identifier for a provider based on settings
+	 * Get the configured model name for a provider type
 	 */
-	private static getProviderId(settings: AIExcerptSettings): string {
-		return `${settings.provider}-${
-			settings.provider === LLMProvider.CLAUDE
-				? settings.claudeModel
-				: settings.openaiModel
-		}`;
+	static getModel(type: LLMProvider, settings: AIExcerptSettings): string {
+		switch (type) {
+			case LLMProvider.CLAUDE:
+				return settings.claudeModel;
+			case LLMProvider.OPENAI:
+				return settings.openaiModel;
+			case LLMProvider.OLLAMA:
+				return settings.ollamaModel;
+			case LLMProvider.OPENAI_COMPATIBLE:
+				return settings.compatibleModel;
+			default:
+				return "";
+		}
 	}
 }
@@ -0,0 +1,189 @@
+import { LLMProvider, RateLimit } from "../types";
+import { RetryHandler } from "./retry-handler";
+
+/**
+ * A token bucket refilled continuously up to one minute's allowance
+ */
+interface Bucket {
+	// Allowance per minute, 0 means unlimited
+	perMinute: number;
+	available: number;
+}
+
+/**
+ * Shared token-bucket limiter for the requests sent to one provider
+ *
+ * Every request takes one token from the requests bucket and its estimated
+ * size from the tokens bucket, waiting until both have enough. Requests
+ * are let through in the order they asked. When the provider answers with
+ * 429, everyone waits out the back-off and the refill rate is halved; each
+ * successful request then restores a tenth of the full rate.
+ */
+export class RateLimiter {
+	// Lowest fraction of the configured rate the limiter slows down to
+	private static readonly minRateFactor = 0.1;
+	private static readonly recoveryStep = 0.1;
+
+	private static limiters: Map<LLMProvider, RateLimiter> = new Map();
+	private static limits: Partial<Record<LLMProvider, RateLimit>> = {};
+
+	private requests: Bucket;
+	private tokens: Bucket;
+	private rateFactor = 1;
+	private pausedUntil = 0;
+	private lastRefill = Date.now();
+	// Resolves when the previous caller has been let through
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(limit: RateLimit) {
+		this.requests = { perMinute: 0, available: 0 };
+		this.tokens = { perMinute: 0, available: 0 };
+		this.setLimit(limit);
+	}
+
+	/**
+	 * Set the limits of every provider, e.g. after the settings change
+	 *
+	 * @param limits - Requests and tokens per minute by provider type
+	 */
+	static configure(limits: Partial<Record<LLMProvider, RateLimit>>): void {
+		this.limits = limits;
+		for (const [provider, limiter] of this.limiters.entries()) {
+			limiter.setLimit(this.getLimit(provider));
+		}
+	}
+
+	/**
+	 * Get the limiter shared by all requests to a provider type
+	 */
+	static forProvider(provider: LLMProvider): RateLimiter {
+		let limiter = this.limiters.get(provider);
+		if (!limiter) {
+			limiter = new RateLimiter(this.getLimit(provider));
+			this.limiters.set(provider, limiter);
+		}
+		return limiter;
+	}
+
+	/**
+	 * Forget all limiters, e.g. when the plugin unloads
+	 */
+	static reset(): void {
+		this.limiters.clear();
+	}
+
+	private static getLimit(provider: LLMProvider): RateLimit {
+		return (
+			this.limits[provider] || { requestsPerMinute: 0, tokensPerMinute: 0 }
+		);
+	}
+
+	/**
+	 * Change the limits, keeping what is currently available
+	 */
+	setLimit(limit: RateLimit): void {
+		this.refill();
+		this.requests = this.resize(this.requests, limit.requestsPerMinute);
+		this.tokens = this.resize(this.tokens, limit.tokensPerMinute);
+	}
+
+	/**
+	 * Wait until a request of the given size may be sent
+	 *
+	 * @param tokens - Estimated input plus maximum output tokens
+	 * @param signal - Gives up the place in line when aborted
+	 * @throws RequestAbortedError if the signal aborts while waiting
+	 */
+	acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+		const turn = this.queue.then(() => this.waitFor(tokens, signal));
+		// An aborted caller must not hold up the ones behind it
+		this.queue = turn.catch(() => undefined);
+		return turn;
+	}
+
+	/**
+	 * Slow down after the provider reported a rate limit
+	 *
+	 * @param delayMs - How long no request should be sent
+	 */
+	backOff(delayMs: number): void {
+		this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+		this.rateFactor = Math.max(
+			RateLimiter.minRateFactor,
+			this.rateFactor / 2
+		);
+	}
+
+	/**
+	 * Recover some of the rate lost to earlier back-offs
+	 */
+	recordSuccess(): void {
+		this.rateFactor = Math.min(
+			1,
+			this.rateFactor + RateLimiter.recoveryStep
+		);
+	}
+
+	private async waitFor(
+		tokens: number,
+		signal?: AbortSignal
+	): Promise<void> {
+		for (;;) {
+			this.refill();
+			// A request larger than the whole bucket waits for a full one
+			const cost = Math.min(tokens, this.tokens.perMinute);
+			const wait = Math.max(
+				this.pausedUntil - Date.now(),
+				this.getWait(this.requests, 1),
+				this.getWait(this.tokens, cost)
+			);
+			if (wait <= 0) {
+				this.take(this.requests, 1);
+				this.take(this.tokens, cost);
+				return;
+			}
+			await RetryHandler.sleep(wait, signal);
+		}
+	}
+
+	/**
+	 * Add what has accumulated since the last refill, at the current rate
+	 */
+	private refill(): void {
+		const now = Date.now();
+		const elapsed = now - this.lastRefill;
+		this.lastRefill = now;
+		for (const bucket of [this.requests, this.tokens]) {
+			bucket.available = Math.min(
+				bucket.perMinute,
+				bucket.available +
+					(bucket.perMinute / 60000) * elapsed * this.rateFactor
+			);
+		}
+	}
+
+	/**
+	 * Milliseconds until a bucket holds the given amount, 0 if it does now
+	 */
+	private getWait(bucket: Bucket, amount: number): number {
+		if (bucket.perMinute === 0 || bucket.available >= amount) {
+			return 0;
+		}
+		const perMs = (bucket.perMinute / 60000) * this.rateFactor;
+		return Math.ceil((amount - bucket.available) / perMs);
+	}
+
+	private take(bucket: Bucket, amount: number): void {
+		if (bucket.perMinute > 0) {
+			bucket.available -= amount;
+		}
+	}
+
+	private resize(bucket: Bucket, perMinute: number): Bucket {
+		const limit = Math.max(0, perMinute || 0);
+		// A new bucket starts full
+		const available =
+			bucket.perMinute === 0 ? limit : Math.min(bucket.available, limit);
+		return { perMinute: limit, available };
+	}
+}
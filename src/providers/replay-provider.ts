@@ -0,0 +1,239 @@
+import { DataAdapter, normalizePath } from "obsidian";
+import { LLMProvider, PromptType, RequestOptions } from "../types";
+import { HashUtils } from "../utils/hash-utils";
+import { BaseProvider, StructuredRequest } from "./base-provider";
+import {
+	FatalProviderError,
+	ProviderHttpError,
+	RetryHandler,
+} from "./retry-handler";
+
+/**
+ * One recorded outcome of a request: either the parsed response or the
+ * HTTP error the provider returned
+ */
+export interface FixtureResponse {
+	model: string;
+	value?: unknown;
+	usage?: { input: number; output: number };
+	error?: {
+		status: number;
+		message: string;
+		headers?: Record<string, string>;
+	};
+}
+
+/**
+ * A fixture file, holding the responses of each provider to one request
+ *
+ * The request is stored for readability only; fixtures are looked up by
+ * the hash in their file name.
+ */
+export interface Fixture {
+	request: { schemaName: string; system: string; prompt: string };
+	responses: Partial<Record<LLMProvider, FixtureResponse>>;
+}
+
+/**
+ * Reads and writes fixture files in the plugin's `fixtures` folder
+ */
+export class ReplayFixtures {
+	private static adapter: DataAdapter | null = null;
+	private static folder = "";
+
+	/**
+	 * Set where fixtures are kept
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 */
+	static initialize(adapter: DataAdapter, pluginDir: string): void {
+		this.adapter = adapter;
+		this.folder = normalizePath(`${pluginDir}/fixtures`);
+	}
+
+	/**
+	 * Folder the fixture files are kept in
+	 */
+	static getFolder(): string {
+		return this.folder;
+	}
+
+	/**
+	 * Key a request by what the model sees, ignoring the model itself so
+	 * fixtures can be replayed with any configured model, and ignoring the
+	 * vault's tags so fixtures still match after tags change
+	 */
+	static async getKey(request: StructuredRequest): Promise<string> {
+		return await HashUtils.sha256(
+			JSON.stringify(
+				request.fixtureText !== undefined
+					? [request.schemaName, request.fixtureText]
+					: [request.schemaName, request.system, request.prompt]
+			)
+		);
+	}
+
+	/**
+	 * Read the fixture for a request
+	 *
+	 * @returns The fixture, or null if none was recorded
+	 */
+	static async read(key: string): Promise<Fixture | null> {
+		const path = `${this.folder}/${key}.json`;
+		if (!this.adapter || !(await this.adapter.exists(path))) {
+			return null;
+		}
+		return JSON.parse(await this.adapter.read(path)) as Fixture;
+	}
+
+	/**
+	 * Store one provider's response to a request, keeping the responses
+	 * already recorded from other providers
+	 */
+	static async write(
+		request: StructuredRequest,
+		provider: LLMProvider,
+		response: FixtureResponse
+	): Promise<void> {
+		if (!this.adapter) return;
+
+		const key = await this.getKey(request);
+		const fixture: Fixture = (await this.read(key)) || {
+			request: {
+				schemaName: request.schemaName,
+				system: request.system,
+				prompt: request.prompt,
+			},
+			responses: {},
+		};
+		fixture.responses[provider] = response;
+
+		if (!(await this.adapter.exists(this.folder))) {
+			await this.adapter.mkdir(this.folder);
+		}
+		await this.adapter.write(
+			`${this.folder}/${key}.json`,
+			JSON.stringify(fixture, null, "\t")
+		);
+	}
+}
+
+/**
+ * Provider that answers from recorded fixtures instead of the network
+ *
+ * Each provider type in the chain gets its own instance, and answers with
+ * the response recorded for that type, falling back to any recorded
+ * response. Recorded errors are thrown as HTTP errors so retries, the
+ * circuit breaker and the provider chain behave as they would live, except
+ * that retries don't wait.
+ */
+export class ReplayProvider extends BaseProvider {
+	protected providerType: LLMProvider;
+
+	constructor(
+		providerType: LLMProvider,
+		model: string,
+		promptType = PromptType.TAG_GENERATION
+	) {
+		super(model, promptType);
+		this.providerType = providerType;
+	}
+
+	async complete(
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): Promise<unknown> {
+		const key = await ReplayFixtures.getKey(request);
+		const fixture = await ReplayFixtures.read(key);
+		const response =
+			fixture?.responses[this.providerType] ||
+			Object.values(fixture?.responses || {})[0];
+
+		if (!response) {
+			// Retrying won't make a fixture appear
+			throw new FatalProviderError(
+				`No recorded response for this request (fixture ${key}). Record it first with replay mode set to Record.`,
+				undefined,
+				false
+			);
+		}
+
+		return await RetryHandler.execute(
+			async () => {
+				if (response.error) {
+					throw new ProviderHttpError(
+						response.error.status,
+						response.error.headers || {},
+						response.error.message
+					);
+				}
+				if (response.usage) {
+					this.recordUsage(
+						response.usage.input,
+						response.usage.output,
+						options
+					);
+				}
+				return response.value;
+			},
+			{
+				provider: `Replay (${this.providerType})`,
+				model: this.model,
+				signal: options.signal,
+				// Keep replay runs fast and independent of timing
+				sleep: () => Promise.resolve(),
+			}
+		);
+	}
+}
+
+/**
+ * Provider that forwards requests to a real provider and saves every
+ * response, or HTTP error, as a fixture for ReplayProvider
+ */
+export class RecordingProvider extends BaseProvider {
+	protected providerType: LLMProvider;
+	private inner: BaseProvider;
+
+	constructor(
+		inner: BaseProvider,
+		providerType: LLMProvider,
+		model: string,
+		promptType = PromptType.TAG_GENERATION
+	) {
+		super(model, promptType);
+		this.inner = inner;
+		this.providerType = providerType;
+	}
+
+	async complete(
+		request: StructuredRequest,
+		options: RequestOptions = {}
+	): Promise<unknown> {
+		try {
+			const value = await this.inner.complete(request, options);
+			await ReplayFixtures.write(request, this.providerType, {
+				model: this.model,
+				value,
+				usage: this.inner.getTokenUsage() || undefined,
+			});
+			return value;
+		} catch (error) {
+			const status = (error as { status?: unknown })?.status;
+			if (typeof status === "number") {
+				await ReplayFixtures.write(request, this.providerType, {
+					model: this.model,
+					error: {
+						status,
+						message:
+							error instanceof Error
+								? error.message
+								: String(error),
+					},
+				});
+			}
+			throw error;
+		}
+	}
+}
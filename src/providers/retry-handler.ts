@@ -0,0 +1,435 @@
+import "@anthropic-ai/sdk/shims/web";
+import { APIConnectionError as AnthropicConnectionError } from "@anthropic-ai/sdk";
+import { APIConnectionError as OpenAIConnectionError } from "openai";
+import { RateLimiter } from "./rate-limiter";
+
+/**
+ * Error raised by providers that talk HTTP directly (e.g. Ollama), carrying
+ * the same status and headers the SDK errors expose
+ */
+export class ProviderHttpError extends Error {
+	readonly status: number;
+	readonly headers: Record<string, string>;
+
+	constructor(status: number, headers: Record<string, string>, message: string) {
+		super(message);
+		this.name = "ProviderHttpError";
+		this.status = status;
+		this.headers = headers;
+	}
+}
+
+/**
+ * Error that retrying or falling back to another provider cannot fix, such
+ * as a rejected API key or an unknown model
+ *
+ * The message is meant to be shown to the user as-is.
+ */
+export class FatalProviderError extends Error {
+	readonly status: number | undefined;
+	// False when only the current note is affected, e.g. it is too long
+	readonly affectsAllRequests: boolean;
+
+	constructor(
+		message: string,
+		status: number | undefined,
+		affectsAllRequests: boolean
+	) {
+		super(message);
+		this.name = "FatalProviderError";
+		this.status = status;
+		this.affectsAllRequests = affectsAllRequests;
+	}
+}
+
+/**
+ * Error raised when the caller aborts a request, e.g. because the user
+ * cancelled a bulk job or the plugin is unloading
+ *
+ * It is never retried and doesn't count against the provider.
+ */
+export class RequestAbortedError extends Error {
+	constructor() {
+		super("Request was cancelled");
+		this.name = "RequestAbortedError";
+	}
+}
+
+/**
+ * Error raised when an attempt takes longer than the request timeout
+ *
+ * It carries no status, but is retried like a network failure.
+ */
+export class RequestTimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+		this.name = "RequestTimeoutError";
+	}
+}
+
+/**
+ * Identifies the provider and model in retry logs and error messages
+ */
+export interface RetryContext {
+	provider: string;
+	model: string;
+	// Throttles every attempt and backs off when rate limited
+	limiter?: RateLimiter;
+	// Estimated size of the request, for the tokens-per-minute limit
+	tokens?: number;
+	// Aborts the request, including waits between attempts
+	signal?: AbortSignal;
+	// Longest a single attempt may take, in ms
+	timeoutMs?: number;
+	// Waits between attempts, `RetryHandler.sleep` unless replaced
+	sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Result of classifying an error thrown by a provider request
+ */
+interface ErrorClassification {
+	retryable: boolean;
+	status?: number;
+	// Delay requested by the server through Retry-After, if any
+	retryAfterMs?: number;
+	fatal?: FatalProviderError;
+}
+
+/**
+ * Shared retry layer for provider requests
+ *
+ * Retries rate limits (429), server errors (5xx), network failures and
+ * timed-out attempts with exponential backoff and jitter, honoring
+ * Retry-After when the server sends it. A 429 also slows down the
+ * request's rate limiter. Aborting stops the request and any wait.
+ * Errors that a retry can't fix are turned into a FatalProviderError with
+ * a message the user can act on.
+ */
+export class RetryHandler {
+	private static maxRetries: number = 4;
+	private static baseDelay: number = 1000; // 1 second before the first retry
+	private static maxDelay: number = 30000; // Never wait more than 30 seconds
+	private static maxRetryAfter: number = 120000; // Cap server-requested waits at 2 minutes
+
+	/**
+	 * Run a provider request, retrying transient failures
+	 *
+	 * @param operation - The request to run, given a signal that aborts it
+	 * @param context - Provider and model, used for logs and error messages
+	 * @returns The result of the first successful attempt
+	 * @throws RequestAbortedError once the context's signal aborts
+	 * @throws FatalProviderError for errors a retry can't fix, or the last
+	 * error once retries are exhausted
+	 */
+	static async execute<T>(
+		operation: (signal: AbortSignal) => Promise<T>,
+		context: RetryContext
+	): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				if (context.signal?.aborted) {
+					throw new RequestAbortedError();
+				}
+				await context.limiter?.acquire(
+					context.tokens || 0,
+					context.signal
+				);
+				const result = await this.attempt(operation, context);
+				context.limiter?.recordSuccess();
+				return result;
+			} catch (error) {
+				// The SDKs throw their own errors when their signal aborts
+				if (
+					error instanceof RequestAbortedError ||
+					context.signal?.aborted
+				) {
+					throw new RequestAbortedError();
+				}
+
+				const classification = this.classify(error, context);
+
+				if (classification.fatal) {
+					throw classification.fatal;
+				}
+
+				if (!classification.retryable || attempt >= this.maxRetries) {
+					throw error;
+				}
+
+				const delay = this.getDelay(attempt, classification);
+				if (classification.status === 429) {
+					// Hold back every request to this provider, not just this one
+					context.limiter?.backOff(delay);
+				}
+				console.warn(
+					`${context.provider} request failed${
+						classification.status
+							? ` with status ${classification.status}`
+							: ""
+					}, retrying in ${Math.round(delay)}ms (attempt ${
+						attempt + 1
+					}/${this.maxRetries})`
+				);
+				await (context.sleep
+					? context.sleep(delay, context.signal)
+					: this.sleep(delay, context.signal));
+			}
+		}
+	}
+
+	/**
+	 * Wait, giving up early when the signal aborts
+	 *
+	 * @param ms - How long to wait
+	 * @param signal - Aborts the wait
+	 * @throws RequestAbortedError if the signal aborts first
+	 */
+	static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(new RequestAbortedError());
+				return;
+			}
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new RequestAbortedError());
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+
+	/**
+	 * Run one attempt, settling as soon as the caller aborts or the
+	 * timeout passes even if the transport can't be interrupted
+	 * @private
+	 */
+	private static attempt<T>(
+		operation: (signal: AbortSignal) => Promise<T>,
+		context: RetryContext
+	): Promise<T> {
+		const controller = new AbortController();
+
+		return new Promise<T>((resolve, reject) => {
+			const onAbort = () => {
+				controller.abort();
+				reject(new RequestAbortedError());
+			};
+			const timer = context.timeoutMs
+				? setTimeout(() => {
+						controller.abort();
+						reject(new RequestTimeoutError(context.timeoutMs || 0));
+				  }, context.timeoutMs)
+				: null;
+			const cleanUp = () => {
+				if (timer) clearTimeout(timer);
+				context.signal?.removeEventListener("abort", onAbort);
+			};
+			context.signal?.addEventListener("abort", onAbort, { once: true });
+
+			operation(controller.signal).then(
+				(value) => {
+					cleanUp();
+					resolve(value);
+				},
+				(error) => {
+					cleanUp();
+					reject(error);
+				}
+			);
+		});
+	}
+
+	/**
+	 * Decide whether an error is worth retrying
+	 *
+	 * @param error - The error thrown by the request
+	 * @param context - Provider and model, used in fatal error messages
+	 * @returns The classification of the error
+	 */
+	static classify(error: unknown, context: RetryContext): ErrorClassification {
+		const status = this.getStatus(error);
+		const message = (
+			error instanceof Error ? error.message : String(error)
+		).toLowerCase();
+		const retryAfterMs = this.getRetryAfter(error);
+
+		// Without a status, only a request that never got a response is worth
+		// retrying; anything else is a bug or a bad response body
+		if (status === undefined) {
+			return { retryable: this.isTransportError(error), retryAfterMs };
+		}
+
+		if (status === 401 || status === 403) {
+			return {
+				retryable: false,
+				status,
+				fatal: new FatalProviderError(
+					`${context.provider} rejected the API key (${status}). Check the key in the AI Tag Generator settings.`,
+					status,
+					true
+				),
+			};
+		}
+
+		if (
+			(status === 400 || status === 413) &&
+			(message.includes("context length") ||
+				message.includes("context_length") ||
+				message.includes("too long") ||
+				message.includes("maximum context") ||
+				message.includes("too many tokens"))
+		) {
+			return {
+				retryable: false,
+				status,
+				fatal: new FatalProviderError(
+					`This note is too long for ${context.model}. Choose a model with a larger context window or shorten the note.`,
+					status,
+					false
+				),
+			};
+		}
+
+		if (
+			status === 404 ||
+			(status === 400 &&
+				message.includes("model") &&
+				(message.includes("not found") ||
+					message.includes("does not exist") ||
+					message.includes("invalid")))
+		) {
+			return {
+				retryable: false,
+				status,
+				fatal: new FatalProviderError(
+					`${context.provider} does not recognize the model "${context.model}". Select another model in the AI Tag Generator settings.`,
+					status,
+					true
+				),
+			};
+		}
+
+		if (status === 408 || status === 409 || status === 429 || status >= 500) {
+			return { retryable: true, status, retryAfterMs };
+		}
+
+		// Any other client error is a malformed request that won't improve on retry
+		return {
+			retryable: false,
+			status,
+			fatal: new FatalProviderError(
+				`${context.provider} rejected the request (${status}): ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+				status,
+				true
+			),
+		};
+	}
+
+	/**
+	 * Compute how long to wait before the next attempt
+	 * @private
+	 */
+	private static getDelay(
+		attempt: number,
+		classification: ErrorClassification
+	): number {
+		if (classification.retryAfterMs !== undefined) {
+			return Math.min(classification.retryAfterMs, this.maxRetryAfter);
+		}
+
+		// Exponential backoff with jitter between 50% and 100% of the delay
+		const exponential = Math.min(
+			this.baseDelay * Math.pow(2, attempt),
+			this.maxDelay
+		);
+		return exponential * (0.5 + Math.random() * 0.5);
+	}
+
+	/**
+	 * Check whether an error means the request never reached the provider
+	 * or timed out, as opposed to a failure in handling its response
+	 * @private
+	 */
+	private static isTransportError(error: unknown): boolean {
+		if (
+			error instanceof RequestTimeoutError ||
+			error instanceof AnthropicConnectionError ||
+			error instanceof OpenAIConnectionError
+		) {
+			return true;
+		}
+		if (!(error instanceof Error)) {
+			return false;
+		}
+
+		// fetch rejects with a TypeError; requestUrl with Electron's net::ERR_*
+		const message = error.message.toLowerCase();
+		if (
+			error instanceof TypeError &&
+			(message.includes("failed to fetch") ||
+				message.includes("fetch failed") ||
+				message.includes("networkerror") ||
+				message.includes("network request failed"))
+		) {
+			return true;
+		}
+		return /net::err_|econn(refused|reset)|etimedout|enotfound|eai_again/.test(
+			message
+		);
+	}
+
+	/**
+	 * Read the HTTP status from SDK or HTTP errors
+	 * @private
+	 */
+	private static getStatus(error: unknown): number | undefined {
+		const status = (error as { status?: unknown } | null)?.status;
+		return typeof status === "number" ? status : undefined;
+	}
+
+	/**
+	 * Parse Retry-After (seconds or HTTP date) or retry-after-ms headers
+	 * @private
+	 */
+	private static getRetryAfter(error: unknown): number | undefined {
+		const headers = (
+			error as { headers?: Record<string, string | null | undefined> } | null
+		)?.headers;
+		if (!headers) return undefined;
+
+		const header = (name: string): string | undefined => {
+			for (const key of Object.keys(headers)) {
+				if (key.toLowerCase() === name) {
+					return headers[key] ?? undefined;
+				}
+			}
+			return undefined;
+		};
+
+		const retryAfterMs = header("retry-after-ms");
+		if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+			return Number(retryAfterMs);
+		}
+
+		const retryAfter = header("retry-after");
+		if (!retryAfter) return undefined;
+
+		if (!isNaN(Number(retryAfter))) {
+			return Number(retryAfter) * 1000;
+		}
+
+		const date = Date.parse(retryAfter);
+		if (!isNaN(date)) {
+			return Math.max(0, date - Date.now());
+		}
+
+		return undefined;
+	}
+}
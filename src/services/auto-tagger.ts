@@ -0,0 +1,195 @@
+import { App, Notice, Plugin, TAbstractFile, TFile } from "obsidian";
+import { AIExcerptSettings } from "../types";
+import { ProposalUtils } from "../utils/proposal-utils";
+import { FileProcessor } from "./file-processor";
+
+/**
+ * Tags notes on their own once they are created or edited
+ *
+ * Every create or modify event restarts a per-note timer, and the note is
+ * tagged when the timer runs out, i.e. once it has gone unedited for the
+ * quiet period. Notes outside the configured folders, notes caught by the
+ * exclusion rules, short notes and notes whose body hasn't changed since
+ * they were last tagged are left alone, so the plugin's own frontmatter
+ * writes never start another round.
+ */
+export class AutoTagger {
+	private app: App;
+	private settings: AIExcerptSettings;
+	private getProcessor: () => FileProcessor | null;
+	// Pending timers by note path
+	private timers: Map<string, number> = new Map();
+	// Notes being tagged right now, whose writes are ignored
+	private tagging: Set<string> = new Set();
+
+	/**
+	 * @param app - The Obsidian app
+	 * @param settings - The plugin settings, read on every event
+	 * @param getProcessor - The current file processor, which is replaced
+	 * when the settings change
+	 */
+	constructor(
+		app: App,
+		settings: AIExcerptSettings,
+		getProcessor: () => FileProcessor | null
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.getProcessor = getProcessor;
+	}
+
+	/**
+	 * Start listening to vault events
+	 *
+	 * Call once the layout is ready, so the create events Obsidian fires
+	 * for every file while loading the vault are not mistaken for new notes.
+	 *
+	 * @param plugin - The plugin the events are registered on
+	 */
+	register(plugin: Plugin): void {
+		plugin.registerEvent(
+			this.app.vault.on("create", (file) => void this.handleChange(file))
+		);
+		plugin.registerEvent(
+			this.app.vault.on("modify", (file) => void this.handleChange(file))
+		);
+		plugin.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				// A rename isn't an edit, but a pending edit moves with the note
+				if (this.cancel(oldPath)) {
+					void this.handleChange(file);
+				}
+			})
+		);
+		plugin.registerEvent(
+			this.app.vault.on("delete", (file) => this.cancel(file.path))
+		);
+	}
+
+	/**
+	 * Cancel every pending timer, e.g. when the plugin unloads
+	 */
+	stop(): void {
+		for (const timer of this.timers.values()) {
+			window.clearTimeout(timer);
+		}
+		this.timers.clear();
+	}
+
+	/**
+	 * Restart a note's timer after it was created or edited
+	 *
+	 * Never rejects, since it runs from vault event callbacks.
+	 */
+	private async handleChange(file: TAbstractFile): Promise<void> {
+		if (
+			!(file instanceof TFile) ||
+			file.extension !== "md" ||
+			!this.settings.autoTag ||
+			!this.isInScope(file.path) ||
+			this.tagging.has(file.path)
+		) {
+			return;
+		}
+
+		// Frontmatter-only writes, including the plugin's own, don't count
+		const fileProcessor = this.getProcessor();
+		try {
+			if (
+				!fileProcessor ||
+				(await fileProcessor.isUnchangedSinceTagging(file))
+			) {
+				return;
+			}
+		} catch (error) {
+			// E.g. the note was deleted or renamed while it was read
+			console.error(
+				`Error checking ${file.path} for auto-tagging:`,
+				error
+			);
+			return;
+		}
+
+		this.cancel(file.path);
+		this.timers.set(
+			file.path,
+			window.setTimeout(
+				() => void this.tag(file.path),
+				this.settings.autoTagQuietMinutes * 60 * 1000
+			)
+		);
+	}
+
+	/**
+	 * Tag a note whose quiet period has passed
+	 *
+	 * Never rejects, since it runs from a timer.
+	 *
+	 * @param path - The note's path when the timer was set
+	 */
+	private async tag(path: string): Promise<void> {
+		this.timers.delete(path);
+
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const fileProcessor = this.getProcessor();
+		if (
+			!(file instanceof TFile) ||
+			!fileProcessor ||
+			!this.settings.autoTag ||
+			ProposalUtils.isProposal(
+				this.app.metadataCache.getFileCache(file)?.frontmatter
+			)
+		) {
+			return;
+		}
+
+		this.tagging.add(path);
+		try {
+			if (await fileProcessor.getAutoTagSkipReason(file)) {
+				return;
+			}
+
+			const result = await fileProcessor.processFile(file, false);
+			if (result.status === "updated" && result.addedTags?.length) {
+				new Notice(
+					`Auto-tagged ${file.basename}: ${result.addedTags
+						.map((tag) => `+${tag}`)
+						.join(" ")}`
+				);
+			} else if (result.status === "failed") {
+				console.error(`Auto-tagging ${path} failed:`, result.error);
+			}
+		} catch (error) {
+			// E.g. the note was deleted or renamed while it was read
+			console.error(`Error auto-tagging ${path}:`, error);
+		} finally {
+			this.tagging.delete(path);
+		}
+	}
+
+	/**
+	 * Whether a note is in one of the folders auto-tagging is limited to
+	 */
+	private isInScope(path: string): boolean {
+		const folders = this.settings.autoTagFolders;
+		return (
+			folders.length === 0 ||
+			folders.some((folder) => path.startsWith(`${folder}/`))
+		);
+	}
+
+	/**
+	 * Cancel a note's pending timer
+	 *
+	 * @returns Whether a timer was pending
+	 */
+	private cancel(path: string): boolean {
+		const timer = this.timers.get(path);
+		if (timer === undefined) {
+			return false;
+		}
+		window.clearTimeout(timer);
+		this.timers.delete(path);
+		return true;
+	}
+}
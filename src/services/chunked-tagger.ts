@@ -0,0 +1,133 @@
+import {
+	AIExcerptProvider,
+	AIExcerptSettings,
+	ChunkMergeMode,
+	NoteContext,
+	RequestOptions,
+} from "../types";
+import { ChunkUtils } from "../utils/chunk-utils";
+import { TagSchema } from "../utils/tag-schema";
+import { TokenUtils } from "../utils/token-utils";
+
+/**
+ * Map-reduce tagging for notes too long to tag in one request
+ *
+ * Long notes are split into chunks, each chunk is tagged on its own with
+ * the same provider, and the per-chunk tags are merged either by how many
+ * chunks suggested them or by a final request that picks from the
+ * candidates. Short notes, or any note when chunking is off, go through
+ * the provider's normal `generateTags` call.
+ */
+export class ChunkedTagger {
+	/**
+	 * Generate tags for a note, chunking it if it is over the threshold
+	 *
+	 * @param provider - The provider to use for every request
+	 * @param content - The note content without frontmatter
+	 * @param settings - Settings with the chunking mode and thresholds
+	 * @param context - The note being tagged, for the prompt template
+	 * @param options - Signal and timeout for every request
+	 * @returns The tags for the whole note
+	 */
+	static async generateTags(
+		provider: AIExcerptProvider,
+		content: string,
+		settings: AIExcerptSettings,
+		context?: NoteContext,
+		options?: RequestOptions
+	): Promise<string[]> {
+		const chunks = this.getChunks(content, settings);
+		if (chunks.length <= 1) {
+			return await provider.generateTags(content, context, options);
+		}
+
+		// Chunks are tagged one after another so a long note doesn't burst
+		// past the provider's rate limit
+		const chunkTags: string[][] = [];
+		for (const chunk of chunks) {
+			chunkTags.push(
+				await provider.generateTags(chunk, context, options)
+			);
+		}
+
+		const candidates = this.rankByFrequency(chunkTags);
+		if (settings.chunkMergeMode === ChunkMergeMode.FINAL_PASS) {
+			const outline = [
+				`The note was split into ${chunks.length} parts.`,
+				...ChunkUtils.getHeadings(content).map(
+					(heading) => `- ${heading}`
+				),
+			].join("\n");
+			return await provider.mergeTags(
+				candidates.map(
+					({ tag, count }) =>
+						`${tag} (${count} of ${chunks.length} parts)`
+				),
+				outline,
+				options
+			);
+		}
+
+		return candidates.slice(0, TagSchema.maxTags).map(({ tag }) => tag);
+	}
+
+	/**
+	 * Number of provider requests a note will take, for run estimates
+	 *
+	 * @param content - The note content without frontmatter
+	 * @param settings - Settings with the chunking mode and thresholds
+	 * @returns Chunks to tag, plus one for a final merge pass
+	 */
+	static countRequests(
+		content: string,
+		settings: AIExcerptSettings
+	): number {
+		const chunks = this.getChunks(content, settings).length;
+		if (chunks <= 1) {
+			return 1;
+		}
+		return settings.chunkMergeMode === ChunkMergeMode.FINAL_PASS
+			? chunks + 1
+			: chunks;
+	}
+
+	/**
+	 * Split a note if chunking is on and it is over the threshold
+	 *
+	 * @returns The chunks, or a single element when the note is sent whole
+	 */
+	private static getChunks(
+		content: string,
+		settings: AIExcerptSettings
+	): string[] {
+		if (
+			settings.chunkMergeMode === ChunkMergeMode.OFF ||
+			TokenUtils.estimate(content) <= settings.chunkThreshold
+		) {
+			return [content];
+		}
+		return ChunkUtils.split(content, settings.chunkSize);
+	}
+
+	/**
+	 * Count in how many chunks each tag appears, most frequent first
+	 *
+	 * Ties keep the order in which tags were first suggested, which favours
+	 * the beginning of the note.
+	 */
+	private static rankByFrequency(
+		chunkTags: string[][]
+	): { tag: string; count: number }[] {
+		const counts = new Map<string, number>();
+		for (const tags of chunkTags) {
+			// A tag repeated within one chunk still counts once
+			for (const tag of new Set(tags.map((tag) => tag.toLowerCase()))) {
+				counts.set(tag, (counts.get(tag) || 0) + 1);
+			}
+		}
+
+		return Array.from(counts.entries())
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count);
+	}
+}
@@ -6,11 +6,43 @@ import {
 	TFolder,
 	Vault,
 	normalizePath,
+	parseYaml,
 } from "obsidian";
-import { AIExcerptPlugin, AIExcerptSettings, LLMProvider } from "../types";
+import {
+	AIExcerptPlugin,
+	AIExcerptProvider,
+	AIExcerptSettings,
+	IncrementalMode,
+	MetadataSuggestion,
+	ProcessFileResult,
+	PromptType,
+	ProviderChainEntry,
+	RequestOptions,
+	RunEstimate,
+	TagMergeMode,
+	TagMergeResult,
+	TagProposal,
+} from "../types";
 import { ProviderFactory } from "../providers/provider-factory";
 import { FileUtils } from "../utils/file-utils";
 import { TagUtils } from "../utils/tag-utils";
+import {
+	FatalProviderError,
+	RequestAbortedError,
+} from "../providers/retry-handler";
+import { InvalidOutputError } from "../utils/tag-schema";
+import { Pricing } from "../utils/pricing";
+import { UsageLedger } from "./usage-ledger";
+import { Prompts, RenderedPrompt } from "../utils/prompts";
+import { TokenUtils } from "../utils/token-utils";
+import { ChunkedTagger } from "./chunked-tagger";
+import { SuggestionSchemas } from "../utils/suggestion-schema";
+import { MetadataSchema } from "../utils/metadata-schema";
+import { ProposalUtils, ProposedTags } from "../utils/proposal-utils";
+import { HashUtils } from "../utils/hash-utils";
+import { JournalRun, RunJournal } from "./run-journal";
+import { TagIndex } from "./tag-index";
+import { BulkJob, JobManager } from "./job-manager";
 
 /**
  * Handles processing of files and directories to add or update excerpts
@@ -24,6 +56,11 @@ import { TagUtils } from "../utils/tag-utils";
  * - Processing files in batch operations
  */
 export class FileProcessor {
+	// Typical provider round trip, used for duration estimates
+	private static readonly estimatedRequestTime = 3000;
+	// Typical size of a structured tag response
+	private static readonly estimatedOutputTokens = 60;
+
 	private vault: Vault;
 	private fileManager: FileManager;
 	private settings: AIExcerptSettings;
@@ -77,35 +114,469 @@ export class FileProcessor {
 	}
 
 	/**
-	 * Process a single file to add or update its excerpt in the frontmatter
+	 * Get the note body that is sent to the provider
+	 *
+	 * @param content - The full file content
+	 * @returns The content without frontmatter
+	 */
+	private getBody(content: string): string {
+		return content.replace(FileUtils.FRONTMATTER_REGEX, "");
+	}
+
+	/**
+	 * Decide whether a file should be skipped without calling a provider
+	 *
+	 * Every scope goes through here, so single notes, bulk runs and
+	 * auto-tagging apply the exclusion rules the same way.
+	 *
+	 * @param file - The note
+	 * @param content - The full file content
+	 * @returns A short reason, or null if the file should be processed
+	 */
+	private getSkipReason(file: TFile, content: string): string | null {
+		const body = this.getBody(content);
+		return (
+			this.getExclusionReason(file, content, body) ||
+			(body.trim().length === 0 ? "empty" : null)
+		);
+	}
+
+	/**
+	 * Check a note against the exclusion rules in the settings
+	 *
+	 * The reasons name the rule that matched, so run summaries can say how
+	 * many notes each rule kept out.
+	 *
+	 * @param file - The note
+	 * @param content - The full file content
+	 * @param body - The content without frontmatter
+	 * @returns The rule that excludes the note, or null if none does
+	 */
+	private getExclusionReason(
+		file: TFile,
+		content: string,
+		body: string
+	): string | null {
+		const { includePatterns, excludePatterns, skipTags, minWords } =
+			this.settings;
+		if (
+			includePatterns.length > 0 &&
+			!includePatterns.some((pattern) =>
+				FileUtils.matchesGlob(file.path, pattern)
+			)
+		) {
+			return "not in included paths";
+		}
+		if (
+			excludePatterns.some((pattern) =>
+				FileUtils.matchesGlob(file.path, pattern)
+			)
+		) {
+			return "excluded path";
+		}
+
+		const frontmatter = this.parseFrontmatter(file.path, content);
+		const optOut = frontmatter[TagUtils.OPT_OUT_KEY];
+		if (optOut === false || String(optOut).toLowerCase() === "false") {
+			return "opted out";
+		}
+		if (
+			skipTags.length > 0 &&
+			TagUtils.findListedTag(
+				[
+					...TagUtils.parseFrontmatterTags(frontmatter["tags"]),
+					...TagUtils.getFileTags(file),
+				],
+				skipTags
+			)
+		) {
+			return "skip tag";
+		}
+		if (minWords > 0 && FileUtils.countWords(body) < minWords) {
+			return "below minimum words";
+		}
+		return null;
+	}
+
+	/**
+	 * Get the prompt version and models notes are tagged with now, to
+	 * compare with the tag index
+	 *
+	 * Any usable chain entry may answer a request, so a note tagged by a
+	 * fallback entry is just as current as one tagged by the first.
+	 *
+	 * @returns The tag template version and every usable chain entry
+	 */
+	private async getTagVersion(): Promise<{
+		promptVersion: string;
+		models: string[];
+	}> {
+		return {
+			promptVersion: await Prompts.getTagPromptVersion(),
+			models: ProviderFactory.getProviderChain(this.settings)
+				.filter((item) =>
+					ProviderFactory.isConfigured(item.provider, this.settings)
+				)
+				.map((item) =>
+					ProviderFactory.describeEntry(item, this.settings)
+				),
+		};
+	}
+
+	/**
+	 * Decide whether a bulk tag run should skip a note it already handled
+	 *
+	 * @param content - The full file content
+	 * @param path - The note's path
+	 * @param version - The current prompt version and models
+	 * @returns A short reason, or null if the note should be tagged
+	 */
+	private async getIncrementalSkipReason(
+		content: string,
+		path: string,
+		version: { promptVersion: string; models: string[] }
+	): Promise<string | null> {
+		switch (this.settings.incrementalMode) {
+			case IncrementalMode.UNTAGGED: {
+				const frontmatter = this.parseFrontmatter(path, content);
+				return TagUtils.parseFrontmatterTags(frontmatter["tags"])
+					.length > 0
+					? "already tagged"
+					: null;
+			}
+			case IncrementalMode.CHANGED: {
+				const entry = TagIndex.get(path);
+				if (
+					entry &&
+					entry.promptVersion === version.promptVersion &&
+					version.models.includes(entry.model) &&
+					entry.hash ===
+						(await HashUtils.sha256(this.getBody(content).trim()))
+				) {
+					return "unchanged since last tagging";
+				}
+				return null;
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Check whether a note should be tagged automatically after an edit
+	 *
+	 * Applies the exclusion rules, the auto-tag word minimum and the
+	 * incremental mode. Notes whose body is unchanged since they were last
+	 * tagged are always skipped, whatever the mode.
+	 *
+	 * @param file - The edited note
+	 * @returns Why the note is skipped, or null if it should be tagged
+	 */
+	async getAutoTagSkipReason(file: TFile): Promise<string | null> {
+		const content = await this.vault.cachedRead(file);
+		const skipReason = this.getSkipReason(file, content);
+		if (skipReason) {
+			return skipReason;
+		}
+		const body = this.getBody(content);
+		if (FileUtils.countWords(body) < this.settings.autoTagMinWords) {
+			return "too short";
+		}
+		if (await this.isUnchangedSinceTagging(file)) {
+			return "unchanged since last tagging";
+		}
+		return await this.getIncrementalSkipReason(
+			content,
+			file.path,
+			await this.getTagVersion()
+		);
+	}
+
+	/**
+	 * Whether a note's body is the one it was last tagged from
+	 *
+	 * True after writes that only touch the frontmatter, such as the
+	 * plugin's own tag updates.
+	 *
+	 * @param file - The note to check
+	 */
+	async isUnchangedSinceTagging(file: TFile): Promise<boolean> {
+		const entry = TagIndex.get(file.path);
+		if (!entry) {
+			return false;
+		}
+		const body = this.getBody(await this.vault.cachedRead(file));
+		return entry.hash === (await HashUtils.sha256(body.trim()));
+	}
+
+	/**
+	 * Record the content, prompt and model a note was tagged with
+	 *
+	 * @param file - The tagged note
+	 * @param body - The note content the tags were generated from
+	 * @param entry - The chain entry that produced the tags
+	 */
+	private async recordTagged(
+		file: TFile,
+		body: string,
+		entry: ProviderChainEntry
+	): Promise<void> {
+		TagIndex.set(file.path, {
+			hash: await HashUtils.sha256(body.trim()),
+			promptVersion: await Prompts.getTagPromptVersion(),
+			model: ProviderFactory.describeEntry(entry, this.settings),
+			taggedAt: Date.now(),
+		});
+	}
+
+	/**
+	 * Estimate the tokens, cost and duration of processing a set of files
+	 *
+	 * Every prompt carries the same instructions (and for tags, the list of
+	 * existing vault tags), so that overhead is counted once per request on
+	 * top of the note itself.
+	 *
+	 * @param files - The files in scope
+	 * @param task - Whether tags, excerpts or metadata will be generated
+	 * @returns The estimate for the run
+	 */
+	async estimateRun(
+		files: TFile[],
+		task: PromptType = PromptType.TAG_GENERATION
+	): Promise<RunEstimate> {
+		const isExcerpt = task === PromptType.EXCERPT_GENERATION;
+		const isMetadata = task === PromptType.METADATA_EXTRACTION;
+		const fields = MetadataSchema.getFields(this.settings.metadataFields);
+		let emptyPrompt: RenderedPrompt;
+		let outputTokensPerRequest = FileProcessor.estimatedOutputTokens;
+		if (isExcerpt) {
+			emptyPrompt = Prompts.renderExcerptPrompt(
+				"",
+				this.settings.excerptMaxLength
+			);
+			outputTokensPerRequest = Math.ceil(
+				this.settings.excerptMaxLength / TokenUtils.charsPerToken
+			);
+		} else if (isMetadata) {
+			emptyPrompt = Prompts.renderSuggestionPrompt(
+				MetadataSchema.build(fields),
+				"",
+				undefined,
+				{ fields: MetadataSchema.describeFields(fields) }
+			);
+			outputTokensPerRequest =
+				FileProcessor.estimatedOutputTokens * Math.max(1, fields.length);
+		} else {
+			emptyPrompt = await Prompts.renderTagPrompt(
+				"",
+				TagUtils.getAllVaultTags()
+			);
+		}
+		const promptTokensPerFile = TokenUtils.estimate(
+			emptyPrompt.system + emptyPrompt.prompt
+		);
+
+		const tagVersion =
+			isExcerpt || isMetadata ? null : await this.getTagVersion();
+		let inputTokens = 0;
+		let requests = 0;
+		const skipReasons: Record<string, number> = {};
+		let skipped = 0;
+
+		for (const file of files) {
+			const content = await this.vault.cachedRead(file);
+			const body = this.getBody(content);
+			let skipReason = isExcerpt
+				? this.getExcerptSkipReason(file, content)
+				: this.getSkipReason(file, content);
+			if (isMetadata && fields.length === 0) {
+				skipReason = "no fields";
+			}
+			if (!skipReason && tagVersion) {
+				skipReason = await this.getIncrementalSkipReason(
+					content,
+					file.path,
+					tagVersion
+				);
+			}
+			if (skipReason) {
+				skipReasons[skipReason] = (skipReasons[skipReason] || 0) + 1;
+				skipped++;
+				continue;
+			}
+			// Excerpts and metadata are taken from the start of long notes
+			if (isExcerpt || isMetadata) {
+				requests++;
+				inputTokens +=
+					promptTokensPerFile +
+					TokenUtils.estimate(this.getExcerptSource(body));
+				continue;
+			}
+			// Long notes may be tagged in chunks, each with its own prompt
+			const fileRequests = ChunkedTagger.countRequests(
+				body,
+				this.settings
+			);
+			requests += fileRequests;
+			inputTokens +=
+				promptTokensPerFile * fileRequests + TokenUtils.estimate(body);
+		}
+
+		const outputTokens = requests * outputTokensPerRequest;
+
+		// Price the run with the first entry of the chain that can be used
+		const entry = ProviderFactory.getProviderChain(this.settings).find(
+			(item) => ProviderFactory.isConfigured(item.provider, this.settings)
+		);
+		const model = entry
+			? ProviderFactory.getEntryModel(entry, this.settings)
+			: "";
+		const cost = Pricing.getPrice(model)
+			? Pricing.estimateCost(model, inputTokens, outputTokens)
+			: null;
+
+		// The slowest of the worker pool and the provider's rate limits
+		const limit = entry ? this.settings.rateLimits[entry.provider] : null;
+		const durationMs = Math.max(
+			(requests * FileProcessor.estimatedRequestTime) /
+				Math.max(1, this.settings.concurrency),
+			limit?.requestsPerMinute
+				? (requests / limit.requestsPerMinute) * 60000
+				: 0,
+			limit?.tokensPerMinute
+				? ((inputTokens + outputTokens) / limit.tokensPerMinute) * 60000
+				: 0
+		);
+
+		return {
+			fileCount: files.length,
+			skipped,
+			skipReasons,
+			promptTokensPerFile,
+			inputTokens,
+			outputTokens,
+			model,
+			cost,
+			durationMs,
+		};
+	}
+
+	/**
+	 * Run a request by walking the provider chain until one entry succeeds
+	 *
+	 * Entries whose circuit is open or that are not configured are skipped.
+	 * Transient failures are reported to the factory's circuit breakers, and
+	 * output that fails schema validation moves on to the next entry. Fatal
+	 * errors stop the walk, since another provider won't fix a bad key or a
+	 * note that is too long, and so does aborting the request. Fatal errors
+	 * and invalid output still show the provider is reachable, so they count
+	 * as successes for its circuit.
+	 *
+	 * @param request - Sends the request with one provider and the options
+	 * @param options - Signal and job usage totals; the timeout comes from the settings
+	 * @returns The result and the entry that produced it, or null if every entry failed
+	 * @throws FatalProviderError if an entry fails in a way retrying can't fix
+	 * @throws RequestAbortedError once the signal aborts
+	 */
+	private async runWithChain<T>(
+		request: (
+			provider: AIExcerptProvider,
+			options: RequestOptions
+		) => Promise<T>,
+		options: RequestOptions = {}
+	): Promise<{ value: T; entry: ProviderChainEntry } | null> {
+		const chain = ProviderFactory.getProviderChain(this.settings);
+		const requestOptions: RequestOptions = {
+			...options,
+			timeoutMs:
+				this.settings.requestTimeout > 0
+					? this.settings.requestTimeout * 1000
+					: undefined,
+		};
+
+		for (const entry of chain) {
+			// Taken before creating the provider, so a settings change
+			// mid-request still reports to the circuit that let it through
+			const circuitId = ProviderFactory.getCircuitId(
+				entry,
+				this.settings
+			);
+			const provider = ProviderFactory.createProviderForEntry(
+				this.settings,
+				entry
+			);
+			if (!provider) {
+				continue;
+			}
+
+			try {
+				const value = await request(provider, requestOptions);
+				ProviderFactory.reportProviderSuccess(circuitId);
+				return { value, entry };
+			} catch (error) {
+				if (error instanceof RequestAbortedError) {
+					throw error;
+				}
+				if (error instanceof FatalProviderError) {
+					// The provider is reachable, the request can't succeed
+					ProviderFactory.reportProviderSuccess(circuitId);
+					throw error;
+				}
+				if (error instanceof InvalidOutputError) {
+					// The provider is healthy, its answer wasn't: try the next entry
+					ProviderFactory.reportProviderSuccess(circuitId);
+					console.warn(
+						`Discarding output from ${ProviderFactory.describeEntry(
+							entry,
+							this.settings
+						)}:`,
+						error.message
+					);
+					continue;
+				}
+				console.error(
+					`Provider ${ProviderFactory.describeEntry(
+						entry,
+						this.settings
+					)} failed:`,
+					error
+				);
+				// Report provider failure and move on to the next entry
+				ProviderFactory.reportProviderFailure(circuitId);
+			} finally {
+				// Aborted requests report nothing but mustn't hold the probe
+				ProviderFactory.releaseProbe(circuitId);
+				ProviderFactory.releaseProvider(provider);
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Process a single file to add or update its tags in the frontmatter
 	 *
 	 * This function will:
 	 * 1. Check if the file is a markdown file
-	 * 2. Check if the file has frontmatter
-	 * 3. Check if the frontmatter has an excerpt field
-	 * 4. Generate an excerpt using the configured AI provider if needed
-	 * 5. Update the file with the new excerpt
+	 * 2. Generate tags by walking the configured provider chain
+	 * 3. Add frontmatter with the tags, or update the existing tags field
 	 *
 	 * @param file - The file to process
 	 * @param showNotices - Whether to show notification messages for this file
-	 * @throws Error if the file processing fails
+	 * @param options - Signal and job usage totals for the provider requests
+	 * @returns The result, including the chain entry that produced the tags
 	 */
-	async processFile(file: TFile, showNotices: boolean = true): Promise<void> {
+	async processFile(
+		file: TFile,
+		showNotices: boolean = true,
+		options: RequestOptions = {}
+	): Promise<ProcessFileResult> {
 		// Validate file type
 		if (file.extension !== "md") {
 			if (showNotices) {
 				new Notice("Only markdown files are supported");
 			}
-			return;
-		}
-
-		// Get provider
-		const provider = ProviderFactory.createProvider(this.settings);
-		if (!provider) {
-			if (showNotices) {
-				new Notice("Failed to initialize AI provider");
-			}
-			return;
+			return { file, status: "skipped" };
 		}
 
 		try {
@@ -113,333 +584,1528 @@ export class FileProcessor {
 			const content = await this.vault.read(file);
 
 			// Check if the file has frontmatter
-			const { hasFrontmatter, frontmatter } =
-				FileUtils.extractFrontmatter(content);
+			const { hasFrontmatter } = FileUtils.extractFrontmatter(content);
 
-			if (!hasFrontmatter) {
-				// No frontmatter, add one with tags
-				const contentWithoutFrontmatter = content;
-				try {
-					const tags = await provider.generateTags(
-						contentWithoutFrontmatter
-					);
-					const enhancedTags = await this.enhanceTagConsistency(tags);
-					const formattedTags = this.formatTags(enhancedTags);
-
-					// For files without frontmatter, we need to add it
-					await this.vault.process(file, (data) => {
-						return FileUtils.createContentWithTags(
-							content,
-							formattedTags
-						);
-					});
+			// Extract content without frontmatter for processing
+			const contentWithoutFrontmatter = this.getBody(content);
 
-					if (showNotices)
-						new Notice(
-							`Added frontmatter with generated tags to ${file.name}`
-						);
+			const skipReason = this.getSkipReason(file, content);
+			if (skipReason) {
+				if (showNotices) {
+					new Notice(`Skipped ${file.name}: ${skipReason}`);
+				}
+				return { file, status: "skipped", skipReason };
+			}
 
-					// Release the provider after successful use
-					ProviderFactory.releaseProvider(provider);
-					return;
-				} catch (error) {
-					console.error("Error generating tags:", error);
-					if (showNotices) {
-						new Notice("Failed to generate tags");
-					}
-					// Release the provider after failure
-					ProviderFactory.releaseProvider(provider);
-					return;
+			const generation = await this.generateFormattedTags(
+				file,
+				contentWithoutFrontmatter,
+				options
+			);
+			if (!generation) {
+				if (showNotices) {
+					new Notice(
+						"Failed to generate tags - no provider in the chain succeeded"
+					);
 				}
+				return {
+					file,
+					status: "failed",
+					error: "No provider in the chain succeeded",
+				};
 			}
 
-			// Extract content without frontmatter for processing
-			const contentWithoutFrontmatter = content.replace(
-				FileUtils.FRONTMATTER_REGEX,
-				""
+			const formattedTags = generation.value;
+			const via = ProviderFactory.describeEntry(
+				generation.entry,
+				this.settings
 			);
 
-			// Check if tags already exist
-			const hasTags = frontmatter && frontmatter.includes("tags:");
+			const { tagMergeMode, tagMergeCap } = this.settings;
+			let merge: TagMergeResult;
+			let previousTags: string[] | null = null;
 
-			// We'll generate new tags regardless of whether they already exist
-			try {
-				const tags = await provider.generateTags(
-					contentWithoutFrontmatter
+			if (!hasFrontmatter) {
+				merge = TagUtils.mergeTags(
+					[],
+					formattedTags,
+					[],
+					tagMergeMode,
+					tagMergeCap
 				);
-				const enhancedTags = await this.enhanceTagConsistency(tags);
-				const formattedTags = this.formatTags(enhancedTags);
 
-				// Use fileManager.processFrontMatter to safely update the frontmatter
+				// For files without frontmatter, we need to add it
+				await this.vault.process(file, (data) => {
+					return FileUtils.createContentWithTags(data, merge.tags);
+				});
+
+				if (showNotices)
+					new Notice(
+						`Added frontmatter with generated tags to ${file.name} (via ${via})`
+					);
+			} else {
+				// Merge inside processFrontMatter so the tags read are the
+				// ones replaced, even if the note changed while generating
+				merge = { tags: formattedTags, added: [], removed: [] };
 				await this.fileManager.processFrontMatter(
 					file,
 					(frontmatter) => {
-						frontmatter["tags"] = formattedTags;
+						previousTags =
+							"tags" in frontmatter
+								? TagUtils.parseFrontmatterTags(
+										frontmatter["tags"]
+								  )
+								: null;
+						merge = TagUtils.mergeTags(
+							previousTags || [],
+							formattedTags,
+							TagUtils.parseFrontmatterTags(
+								frontmatter[TagUtils.LOCKED_TAGS_KEY]
+							),
+							tagMergeMode,
+							tagMergeCap
+						);
+						frontmatter["tags"] = merge.tags;
 					}
 				);
 
 				if (showNotices) {
-					if (hasTags) {
-						new Notice(
-							`Updated tags in frontmatter for ${file.name}`
-						);
-					} else {
-						new Notice(
-							`Added tags field to frontmatter in ${file.name}`
-						);
-					}
+					new Notice(
+						`${this.describeTagChanges(merge, file)} (via ${via})`
+					);
 				}
+			}
 
-				// Release the provider after successful use
-				ProviderFactory.releaseProvider(provider);
-			} catch (providerError) {
-				// Report provider failure
-				ProviderFactory.reportProviderFailure(this.settings.provider);
-
-				// Try fallback provider if primary fails
-				const fallbackResult = ProviderFactory.createFallbackProvider(
-					this.settings,
-					this.settings.provider
-				);
-
-				if (fallbackResult.success && fallbackResult.provider) {
-					try {
-						const tags = await fallbackResult.provider.generateTags(
-							contentWithoutFrontmatter
-						);
-						const enhancedTags = await this.enhanceTagConsistency(
-							tags
-						);
-						const formattedTags = this.formatTags(enhancedTags);
-
-						await this.fileManager.processFrontMatter(
-							file,
-							(frontmatter) => {
-								frontmatter["tags"] = formattedTags;
-							}
-						);
-
-						if (showNotices) {
-							new Notice(
-								`Generated tags using fallback provider for ${file.name}`
-							);
-						}
+			await this.recordTagged(
+				file,
+				contentWithoutFrontmatter,
+				generation.entry
+			);
 
-						// Release the fallback provider
-						ProviderFactory.releaseProvider(
-							fallbackResult.provider
-						);
-					} catch (fallbackError) {
-						console.error(
-							"Fallback provider failed:",
-							fallbackError
-						);
-						if (showNotices) {
-							new Notice(
-								"Failed to generate tags with fallback provider"
-							);
-						}
-						// Release the fallback provider after failure
-						if (fallbackResult.provider) {
-							ProviderFactory.releaseProvider(
-								fallbackResult.provider
-							);
-						}
-					}
-				} else {
-					if (showNotices) {
-						new Notice(
-							"Failed to generate tags - no fallback available"
-						);
-					}
-				}
-			}
+			return {
+				file,
+				status: "updated",
+				tags: merge.tags,
+				addedTags: merge.added,
+				removedTags: merge.removed,
+				previousTags,
+				entry: generation.entry,
+			};
 		} catch (error) {
-			console.error("Error processing file:", error);
-			if (showNotices) {
-				new Notice("Failed to process file");
-			}
-			// Release the provider after failure
-			ProviderFactory.releaseProvider(provider);
+			return this.getErrorResult(file, error, showNotices);
 		}
 	}
 
-	private formatTags(tags: string[]): string[] {
-		return tags.map((tag) => {
-			// Add prefix if configured
-			const prefix = this.settings.tagPrefix || "";
-			// Ensure tag follows Obsidian conventions
-			const formattedTag = tag
-				.toLowerCase()
-				.trim()
-				.replace(/[^a-z0-9/\-]/g, "-")
-				.replace(/-+/g, "-")
-				.replace(/^-|-$/g, "");
-			return prefix + formattedTag;
-		});
-	}
-
 	/**
-	 * Process all markdown files in a directory and its subdirectories
+	 * Generate tags for a note body and format them for the frontmatter
 	 *
-	 * @param folder - The root folder to process
-	 * @throws Error if the directory processing fails
-	 */
-	async processDirectory(folder: TFolder): Promise<void> {
-		// Create a function to recursively collect all markdown files
-		const collectMarkdownFiles = (folder: TFolder): TFile[] => {
-			let markdownFiles: TFile[] = [];
-
-			// First, collect markdown files in the current folder
-			folder.children.forEach((child) => {
-				if (child instanceof TFile && child.extension === "md") {
-					markdownFiles.push(child);
-				} else if (child instanceof TFolder) {
-					// Recursively collect files from subfolders
-					markdownFiles = markdownFiles.concat(
-						collectMarkdownFiles(child)
-					);
-				}
-			});
+	 * @param file - The note being tagged
+	 * @param body - The note content without frontmatter
+	 * @param options - Signal and job usage totals for the provider requests
+	 * @returns The tags and the chain entry that produced them, or null if every entry failed
+	 */
+	private async generateFormattedTags(
+		file: TFile,
+		body: string,
+		options: RequestOptions = {}
+	): Promise<{ value: string[]; entry: ProviderChainEntry } | null> {
+		const generation = await this.runWithChain(
+			(provider, options) =>
+				ChunkedTagger.generateTags(
+					provider,
+					body,
+					this.settings,
+					{ title: file.basename, path: file.path },
+					options
+				),
+			options
+		);
+		if (!generation) {
+			return null;
+		}
 
-			return markdownFiles;
+		const enhancedTags = await this.enhanceTagConsistency(generation.value);
+		return {
+			value: this.formatTags(enhancedTags),
+			entry: generation.entry,
 		};
+	}
 
-		// Collect all markdown files from the folder and its subfolders
-		const files = collectMarkdownFiles(folder);
-
-		if (files.length === 0) {
-			new Notice(
-				`No markdown files found in ${folder.path} or its subfolders`
-			);
-			if (this.plugin) {
-				this.plugin.updateStatusBar(0, 0);
-			}
-			return;
+	/**
+	 * Generate tags for a single note without writing them, for review
+	 *
+	 * @param file - The note to tag
+	 * @returns The proposed change, or null if the note was skipped or no tags could be generated
+	 */
+	async proposeTags(file: TFile): Promise<TagProposal | null> {
+		const { result, proposal } = await this.createTagProposal(file, true);
+		if (result.status === "skipped" && result.skipReason) {
+			new Notice(`Skipped ${file.name}: ${result.skipReason}`);
 		}
+		return proposal || null;
+	}
 
-		new Notice(
-			`Processing ${files.length} files in ${folder.path} and its subfolders...`
-		);
-
-		// Initialize status bar with total files to process
-		if (this.plugin) {
-			this.plugin.updateStatusBar(0, files.length);
+	/**
+	 * Generate tags for a note and work out what writing them would change
+	 *
+	 * @param file - The note to tag
+	 * @param showNotices - Whether to show notices for failures
+	 * @param options - Signal and job usage totals for the provider requests
+	 * @returns The result for the file, with the proposal if one was made
+	 */
+	private async createTagProposal(
+		file: TFile,
+		showNotices: boolean,
+		options: RequestOptions = {}
+	): Promise<{ result: ProcessFileResult; proposal?: TagProposal }> {
+		if (file.extension !== "md") {
+			if (showNotices) {
+				new Notice("Only markdown files are supported");
+			}
+			return { result: { file, status: "skipped" } };
 		}
 
-		let processed = 0;
-		let errors = 0;
-		const batchSize = 5; // Process 5 files at a time
-
-		// Process files in batches to avoid overwhelming the API
-		for (let i = 0; i < files.length; i += batchSize) {
-			const batch = files.slice(i, i + batchSize);
-
-			// Process each file in the current batch
-			for (const file of batch) {
-				try {
-					await this.processFile(file, false); // Don't show individual notices
-					processed++;
-
-					// Update status bar with progress
-					if (this.plugin) {
-						this.plugin.updateStatusBar(processed, files.length);
-					}
+		try {
+			const content = await this.vault.read(file);
+			const body = this.getBody(content);
+			const skipReason = this.getSkipReason(file, content);
+			if (skipReason) {
+				return { result: { file, status: "skipped", skipReason } };
+			}
 
-					// Show progress updates
-					if (processed % 5 === 0 || processed === files.length) {
-						new Notice(
-							`Processed ${processed}/${files.length} files in ${folder.path} and subfolders`
-						);
-					}
-				} catch (error) {
-					console.error(`Error processing ${file.path}:`, error);
-					errors++;
+			const generation = await this.generateFormattedTags(
+				file,
+				body,
+				options
+			);
+			if (!generation) {
+				if (showNotices) {
+					new Notice(
+						"Failed to generate tags - no provider in the chain succeeded"
+					);
 				}
+				return {
+					result: {
+						file,
+						status: "failed",
+						error: "No provider in the chain succeeded",
+					},
+				};
 			}
 
-			// Add a delay between batches to prevent rate limiting
-			if (i + batchSize < files.length) {
-				await new Promise((resolve) => setTimeout(resolve, 2000)); // 2-second delay between batches
-			}
+			const frontmatter = this.parseFrontmatter(file.path, content);
+			const current = TagUtils.parseFrontmatterTags(frontmatter["tags"]);
+			const locked = TagUtils.parseFrontmatterTags(
+				frontmatter[TagUtils.LOCKED_TAGS_KEY]
+			);
+			const merge = TagUtils.mergeTags(
+				current,
+				generation.value,
+				locked,
+				this.settings.tagMergeMode,
+				this.settings.tagMergeCap
+			);
+			return {
+				result: {
+					file,
+					status: "updated",
+					tags: merge.tags,
+					addedTags: merge.added,
+					removedTags: merge.removed,
+					entry: generation.entry,
+				},
+				proposal: {
+					file,
+					current,
+					locked,
+					merge,
+					entry: generation.entry,
+					via: ProviderFactory.describeEntry(
+						generation.entry,
+						this.settings
+					),
+				},
+			};
+		} catch (error) {
+			return { result: this.getErrorResult(file, error, showNotices) };
 		}
-
-		// Show final completion notice with success and error counts
-		new Notice(
-			`Completed. Processed ${processed}/${files.length} files in ${folder.path} and subfolders.` +
-				(errors > 0 ? ` Errors: ${errors}` : "")
-		);
-
-		// Reset status bar after completion
-		setTimeout(() => {
-			if (this.plugin) {
-				this.plugin.updateStatusBar(0, 0);
-			}
-		}, 5000); // Reset after 5 seconds
 	}
 
 	/**
-	 * Process all markdown files in the vault
+	 * Write a reviewed set of tags to a note
+	 *
+	 * Locked tags are kept even if they were left out of `tags`.
 	 *
-	 * @throws Error if the vault processing fails
+	 * @param file - The note to update
+	 * @param tags - The accepted tags
+	 * @param entry - The chain entry that generated them, if any
+	 * @param showNotices - Whether to show notification messages for this file
+	 * @returns The result, with the tags added and removed
 	 */
-	async processAllFiles(): Promise<void> {
-		const files = this.vault.getMarkdownFiles();
-		let processed = 0;
-		let errors = 0;
-		const batchSize = 5; // Process 5 files at a time
+	async applyTags(
+		file: TFile,
+		tags: string[],
+		entry?: ProviderChainEntry,
+		showNotices: boolean = true
+	): Promise<ProcessFileResult> {
+		try {
+			let merge: TagMergeResult = { tags, added: [], removed: [] };
+			let previousTags: string[] | null = null;
+			await this.fileManager.processFrontMatter(file, (frontmatter) => {
+				previousTags =
+					"tags" in frontmatter
+						? TagUtils.parseFrontmatterTags(frontmatter["tags"])
+						: null;
+				merge = TagUtils.mergeTags(
+					previousTags || [],
+					tags,
+					TagUtils.parseFrontmatterTags(
+						frontmatter[TagUtils.LOCKED_TAGS_KEY]
+					),
+					TagMergeMode.REPLACE,
+					0
+				);
+				frontmatter["tags"] = merge.tags;
+			});
+			if (showNotices) {
+				new Notice(this.describeTagChanges(merge, file));
+			}
+			if (entry) {
+				await this.recordTagged(
+					file,
+					this.getBody(await this.vault.read(file)),
+					entry
+				);
+			}
 
-		new Notice(`Processing ${files.length} files...`);
+			return {
+				file,
+				status: "updated",
+				tags: merge.tags,
+				addedTags: merge.added,
+				removedTags: merge.removed,
+				previousTags,
+				entry,
+			};
+		} catch (error) {
+			return this.getErrorResult(file, error, showNotices);
+		}
+	}
 
-		// Initialize status bar with total files to process
-		if (this.plugin) {
-			this.plugin.updateStatusBar(0, files.length);
+	/**
+	 * Summarize how a note's tags changed, for notices
+	 *
+	 * @param merge - The merged tags
+	 * @param file - The note
+	 * @returns A sentence listing the tags added and removed
+	 */
+	private describeTagChanges(merge: TagMergeResult, file: TFile): string {
+		const changes: string[] = [];
+		if (merge.added.length > 0) {
+			changes.push(`added ${merge.added.join(", ")}`);
+		}
+		if (merge.removed.length > 0) {
+			changes.push(`removed ${merge.removed.join(", ")}`);
+		}
+		return changes.length > 0
+			? `Updated tags in ${file.name}: ${changes.join("; ")}`
+			: `Tags in ${file.name} are unchanged`;
+	}
+
+	/**
+	 * Process a single file to add or update its excerpt in the frontmatter
+	 *
+	 * Notes that already have an excerpt are skipped unless overwriting is
+	 * enabled, so hand-written excerpts are kept.
+	 *
+	 * @param file - The file to process
+	 * @param showNotices - Whether to show notification messages for this file
+	 * @param options - Signal and job usage totals for the provider requests
+	 * @returns The result, including the chain entry that produced the excerpt
+	 */
+	async processExcerpt(
+		file: TFile,
+		showNotices: boolean = true,
+		options: RequestOptions = {}
+	): Promise<ProcessFileResult> {
+		if (file.extension !== "md") {
+			if (showNotices) {
+				new Notice("Only markdown files are supported");
+			}
+			return { file, status: "skipped" };
 		}
 
-		// Process files in batches to avoid overwhelming the API
-		for (let i = 0; i < files.length; i += batchSize) {
-			const batch = files.slice(i, i + batchSize);
+		const key = this.settings.excerptKey || "excerpt";
 
-			// Process each file in the current batch
-			for (const file of batch) {
-				try {
-					await this.processFile(file, false); // Don't show individual notices
-					processed++;
+		try {
+			const content = await this.vault.read(file);
+			const { hasFrontmatter } = FileUtils.extractFrontmatter(content);
+			const body = this.getBody(content);
+
+			const skipReason = this.getExcerptSkipReason(file, content);
+			if (skipReason) {
+				if (showNotices) {
+					new Notice(`Skipped ${file.name}: ${skipReason}`);
+				}
+				return { file, status: "skipped", skipReason };
+			}
 
-					// Update status bar with progress
-					if (this.plugin) {
-						this.plugin.updateStatusBar(processed, files.length);
+			const maxLength = this.settings.excerptMaxLength;
+			const generation = await this.runWithChain(
+				(provider, options) =>
+					provider.generateExcerpt(
+						this.getExcerptSource(body),
+						maxLength,
+						{ title: file.basename, path: file.path },
+						options
+					),
+				options
+			);
+			if (!generation) {
+				if (showNotices) {
+					new Notice(
+						"Failed to generate excerpt - no provider in the chain succeeded"
+					);
+				}
+				return {
+					file,
+					status: "failed",
+					error: "No provider in the chain succeeded",
+				};
+			}
+
+			const excerpt = generation.value;
+			const via = ProviderFactory.describeEntry(
+				generation.entry,
+				this.settings
+			);
+
+			if (!hasFrontmatter) {
+				await this.vault.process(file, (data) =>
+					FileUtils.createContentWithExcerpt(data, excerpt, key)
+				);
+			} else {
+				await this.fileManager.processFrontMatter(
+					file,
+					(frontmatter) => {
+						frontmatter[key] = excerpt;
 					}
+				);
+			}
 
-					// Show progress updates
-					if (processed % 5 === 0 || processed === files.length) {
-						new Notice(
-							`Processed ${processed}/${files.length} files`
-						);
+			if (showNotices) {
+				new Notice(`Added ${key} to ${file.name} (via ${via})`);
+			}
+
+			return {
+				file,
+				status: "updated",
+				excerpt,
+				entry: generation.entry,
+			};
+		} catch (error) {
+			return this.getErrorResult(file, error, showNotices);
+		}
+	}
+
+	/**
+	 * Fill the metadata fields configured in settings for a single file
+	 *
+	 * All fields are requested in one call. Fields the note says nothing
+	 * about are left as they are, so existing values aren't cleared.
+	 *
+	 * @param file - The file to process
+	 * @param showNotices - Whether to show notification messages for this file
+	 * @param options - Signal and job usage totals for the provider requests
+	 * @returns The result, including the values written
+	 */
+	async processMetadata(
+		file: TFile,
+		showNotices: boolean = true,
+		options: RequestOptions = {}
+	): Promise<ProcessFileResult> {
+		if (file.extension !== "md") {
+			if (showNotices) {
+				new Notice("Only markdown files are supported");
+			}
+			return { file, status: "skipped" };
+		}
+
+		const fields = MetadataSchema.getFields(this.settings.metadataFields);
+		if (fields.length === 0) {
+			if (showNotices) {
+				new Notice(
+					"No metadata fields are configured. Add them in the plugin settings."
+				);
+			}
+			return { file, status: "skipped", skipReason: "no fields" };
+		}
+
+		try {
+			const content = await this.vault.read(file);
+			const body = this.getBody(content);
+
+			const skipReason = this.getSkipReason(file, content);
+			if (skipReason) {
+				if (showNotices) {
+					new Notice(`Skipped ${file.name}: ${skipReason}`);
+				}
+				return { file, status: "skipped", skipReason };
+			}
+
+			const generation = await this.runWithChain(
+				(provider, options) =>
+					provider.suggest(
+						MetadataSchema.build(fields),
+						this.getExcerptSource(body),
+						{ title: file.basename, path: file.path },
+						{ fields: MetadataSchema.describeFields(fields) },
+						options
+					),
+				options
+			);
+			if (!generation) {
+				if (showNotices) {
+					new Notice(
+						"Failed to extract metadata - no provider in the chain succeeded"
+					);
+				}
+				return {
+					file,
+					status: "failed",
+					error: "No provider in the chain succeeded",
+				};
+			}
+
+			const metadata = generation.value;
+			const via = ProviderFactory.describeEntry(
+				generation.entry,
+				this.settings
+			);
+			if (MetadataSchema.isEmpty(metadata)) {
+				if (showNotices) {
+					new Notice(
+						`No metadata found in ${file.name} (via ${via})`
+					);
+				}
+				return {
+					file,
+					status: "skipped",
+					skipReason: "nothing found",
+					entry: generation.entry,
+				};
+			}
+
+			await this.fileManager.processFrontMatter(file, (frontmatter) => {
+				for (const [key, value] of Object.entries(metadata)) {
+					if (value.length > 0) {
+						frontmatter[key] = value;
 					}
-				} catch (error) {
-					console.error(`Error processing ${file.path}:`, error);
-					errors++;
 				}
+			});
+
+			if (showNotices) {
+				const written = Object.keys(metadata).filter(
+					(key) => metadata[key].length > 0
+				);
+				new Notice(
+					`Updated ${written.join(", ")} in ${file.name} (via ${via})`
+				);
 			}
 
-			// Add a delay between batches to prevent rate limiting
-			if (i + batchSize < files.length) {
-				await new Promise((resolve) => setTimeout(resolve, 2000)); // 2-second delay between batches
+			return {
+				file,
+				status: "updated",
+				metadata,
+				entry: generation.entry,
+			};
+		} catch (error) {
+			return this.getErrorResult(file, error, showNotices);
+		}
+	}
+
+	/**
+	 * Decide whether a file should be skipped for excerpt generation
+	 *
+	 * @param file - The note
+	 * @param content - The full file content
+	 * @returns A short reason, or null if the file should be processed
+	 */
+	private getExcerptSkipReason(file: TFile, content: string): string | null {
+		const { frontmatter } = FileUtils.extractFrontmatter(content);
+		if (
+			!this.settings.excerptOverwrite &&
+			frontmatter &&
+			FileUtils.extractExcerptFromFrontmatter(
+				frontmatter,
+				this.settings.excerptKey || "excerpt"
+			).hasExcerpt
+		) {
+			return "has excerpt";
+		}
+		return this.getSkipReason(file, content);
+	}
+
+	/**
+	 * Limit the text an excerpt is written from
+	 *
+	 * Excerpts describe the note as a whole, and the start of a note is
+	 * usually enough for that, so long notes are cut at the chunking
+	 * threshold instead of being chunked.
+	 *
+	 * @param body - The note content without frontmatter
+	 * @returns The content to send
+	 */
+	private getExcerptSource(body: string): string {
+		const maxChars =
+			this.settings.chunkThreshold * TokenUtils.charsPerToken;
+		return body.length > maxChars ? body.slice(0, maxChars) : body;
+	}
+
+	/**
+	 * Ask the provider chain for a title, alias or description suggestion
+	 *
+	 * Nothing is written: the suggestion is returned so it can be reviewed
+	 * and passed to `applySuggestion`.
+	 *
+	 * @param file - The note to make a suggestion for
+	 * @param type - Which suggestion to make
+	 * @returns The suggestion, or null if none could be made
+	 */
+	async suggestMetadata(
+		file: TFile,
+		type: PromptType
+	): Promise<MetadataSuggestion | null> {
+		const spec = SuggestionSchemas.forType(type);
+		if (!spec) {
+			return null;
+		}
+		if (file.extension !== "md") {
+			new Notice("Only markdown files are supported");
+			return null;
+		}
+
+		try {
+			const content = await this.vault.read(file);
+			const body = this.getBody(content);
+			const skipReason = this.getSkipReason(file, content);
+			if (skipReason) {
+				new Notice(`Skipped ${file.name}: ${skipReason}`);
+				return null;
+			}
+
+			const current = this.getCurrentValue(file, content, type);
+			const generation = await this.runWithChain((provider, options) =>
+				provider.suggest(
+					spec,
+					this.getExcerptSource(body),
+					{ title: file.basename, path: file.path },
+					{
+						existing_aliases:
+							Array.isArray(current) && current.length > 0
+								? current.join(", ")
+								: "none",
+					},
+					options
+				)
+			);
+			if (!generation) {
+				new Notice(
+					"Failed to make a suggestion - no provider in the chain succeeded"
+				);
+				return null;
 			}
+
+			let value = generation.value;
+			if (Array.isArray(value) && Array.isArray(current)) {
+				// Only offer aliases the note doesn't have yet
+				const known = new Set(
+					[file.basename, ...current].map((alias) =>
+						alias.toLowerCase()
+					)
+				);
+				value = value.filter(
+					(alias) => !known.has(alias.toLowerCase())
+				);
+			}
+
+			return {
+				file,
+				type,
+				current,
+				value,
+				via: ProviderFactory.describeEntry(
+					generation.entry,
+					this.settings
+				),
+			};
+		} catch (error) {
+			this.getErrorResult(file, error, true);
+			return null;
 		}
+	}
 
-		// Show final completion notice with success and error counts
-		new Notice(
-			`Completed. Processed ${processed}/${files.length} files.` +
-				(errors > 0 ? ` Errors: ${errors}` : "")
+	/**
+	 * Write an accepted suggestion to a note
+	 *
+	 * Titles rename the file, so links to it are updated by Obsidian.
+	 * Aliases are added to the existing ones, and descriptions replace the
+	 * `description` property.
+	 *
+	 * @param file - The note to update
+	 * @param type - Which suggestion is applied
+	 * @param value - The accepted value, possibly edited by the user
+	 * @returns Whether the note was changed
+	 */
+	async applySuggestion(
+		file: TFile,
+		type: PromptType,
+		value: string | string[]
+	): Promise<boolean> {
+		try {
+			switch (type) {
+				case PromptType.TITLE_SUGGESTION:
+					return await this.renameNote(file, String(value));
+				case PromptType.ALIAS_SUGGESTION: {
+					const aliases = Array.isArray(value) ? value : [value];
+					if (aliases.length === 0) {
+						return false;
+					}
+					let added = 0;
+					await this.fileManager.processFrontMatter(
+						file,
+						(frontmatter) => {
+							const existing = this.toList(
+								frontmatter["aliases"]
+							);
+							const known = new Set(
+								existing.map((alias) => alias.toLowerCase())
+							);
+							const newAliases = aliases.filter((alias) => {
+								const key = alias.toLowerCase();
+								if (known.has(key)) {
+									return false;
+								}
+								known.add(key);
+								return true;
+							});
+							added = newAliases.length;
+							frontmatter["aliases"] = [...existing, ...newAliases];
+						}
+					);
+					if (added === 0) {
+						new Notice(`${file.name} already has these aliases`);
+						return false;
+					}
+					new Notice(
+						`Added ${added} alias${
+							added === 1 ? "" : "es"
+						} to ${file.name}`
+					);
+					return true;
+				}
+				case PromptType.DESCRIPTION_SUGGESTION:
+					await this.fileManager.processFrontMatter(
+						file,
+						(frontmatter) => {
+							frontmatter["description"] = String(value);
+						}
+					);
+					new Notice(`Updated description of ${file.name}`);
+					return true;
+				default:
+					return false;
+			}
+		} catch (error) {
+			console.error("Error applying suggestion:", error);
+			new Notice(
+				`Failed to update ${file.name}: ${
+					error instanceof Error ? error.message : String(error)
+				}`
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * Rename a note to a suggested title, keeping it in its folder
+	 *
+	 * @returns Whether the note was renamed
+	 */
+	private async renameNote(file: TFile, title: string): Promise<boolean> {
+		const name = title
+			.replace(/\.md$/i, "")
+			.replace(/[\\/:*?"<>|#^[\]]/g, " ")
+			.replace(/\s+/g, " ")
+			.trim();
+		if (!name) {
+			new Notice("The title is empty");
+			return false;
+		}
+		if (name === file.basename) {
+			new Notice(`${file.name} already has this title`);
+			return false;
+		}
+
+		const filename = `${name}.${file.extension}`;
+		const folder =
+			file.parent && !file.parent.isRoot() ? file.parent.path : "";
+		const path = normalizePath(folder ? `${folder}/${filename}` : filename);
+		const existing = this.vault.getAbstractFileByPath(path);
+		if (existing && existing !== file) {
+			new Notice(`Can't rename ${file.name}: ${path} already exists`);
+			return false;
+		}
+
+		await this.fileManager.renameFile(file, path);
+		new Notice(`Renamed note to ${name}`);
+		return true;
+	}
+
+	/**
+	 * Get the value a suggestion would replace or extend
+	 *
+	 * @param file - The note
+	 * @param content - The full file content
+	 * @param type - Which suggestion is made
+	 * @returns The title, aliases or description currently set
+	 */
+	private getCurrentValue(
+		file: TFile,
+		content: string,
+		type: PromptType
+	): string | string[] {
+		if (type === PromptType.TITLE_SUGGESTION) {
+			return file.basename;
+		}
+
+		const frontmatter = this.parseFrontmatter(file.path, content);
+		if (type === PromptType.ALIAS_SUGGESTION) {
+			return this.toList(frontmatter["aliases"]);
+		}
+		const description = frontmatter["description"];
+		return typeof description === "string" ? description : "";
+	}
+
+	/**
+	 * Parse a note's frontmatter into its properties
+	 *
+	 * @param path - The note's path, for warnings
+	 * @param content - The full file content
+	 * @returns The properties, empty if there is no valid frontmatter
+	 */
+	private parseFrontmatter(
+		path: string,
+		content: string
+	): Record<string, unknown> {
+		const { hasFrontmatter, frontmatter } =
+			FileUtils.extractFrontmatter(content);
+		if (!hasFrontmatter || !frontmatter) {
+			return {};
+		}
+		try {
+			return parseYaml(frontmatter) || {};
+		} catch (error) {
+			console.warn(`Invalid frontmatter in ${path}:`, error);
+			return {};
+		}
+	}
+
+	/**
+	 * Read a frontmatter property that may be a list or a single value
+	 */
+	private toList(value: unknown): string[] {
+		if (Array.isArray(value)) {
+			return value.map((item) => String(item));
+		}
+		return typeof value === "string" && value.trim() ? [value] : [];
+	}
+
+	/**
+	 * Turn an error thrown while processing a file into a failed result
+	 *
+	 * @param file - The file being processed
+	 * @param error - The error thrown
+	 * @param showNotices - Whether to show a notice for the error
+	 * @returns The failed result
+	 */
+	private getErrorResult(
+		file: TFile,
+		error: unknown,
+		showNotices: boolean
+	): ProcessFileResult {
+		if (error instanceof RequestAbortedError) {
+			return { file, status: "skipped", skipReason: "cancelled" };
+		}
+
+		if (error instanceof FatalProviderError) {
+			console.error(`Fatal provider error for ${file.path}:`, error);
+			if (showNotices) {
+				new Notice(error.message, 10000);
+			}
+			return {
+				file,
+				status: "failed",
+				error: error.message,
+				haltBatch: error.affectsAllRequests,
+			};
+		}
+
+		console.error("Error processing file:", error);
+		if (showNotices) {
+			new Notice("Failed to process file");
+		}
+		return {
+			file,
+			status: "failed",
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	/**
+	 * Format tags the way generated tags are written, with the prefix
+	 *
+	 * @param tags - Tags as suggested or typed
+	 * @returns The formatted tags
+	 */
+	formatTags(tags: string[]): string[] {
+		return tags.map((tag) => {
+			// Add prefix if configured
+			const prefix = this.settings.tagPrefix || "";
+			// Ensure tag follows Obsidian conventions
+			const formattedTag = tag
+				.toLowerCase()
+				.trim()
+				.replace(/[^a-z0-9/\-]/g, "-")
+				.replace(/-+/g, "-")
+				.replace(/^-|-$/g, "");
+			return prefix + formattedTag;
+		});
+	}
+
+	/**
+	 * Check a job's usage against the configured budget
+	 *
+	 * @param job - The running job
+	 * @returns A description of the exceeded cap, or null if within budget
+	 */
+	private getBudgetExceeded(job: BulkJob): string | null {
+		const run = job.usage;
+		const { runTokenBudget, runCostBudget } = this.settings;
+		const tokens = run.inputTokens + run.outputTokens;
+
+		if (runTokenBudget > 0 && tokens >= runTokenBudget) {
+			return `Token budget of ${runTokenBudget.toLocaleString()} reached.`;
+		}
+		if (runCostBudget > 0 && run.cost >= runCostBudget) {
+			return `Spend budget of ${Pricing.formatCost(
+				runCostBudget
+			)} reached.`;
+		}
+		return null;
+	}
+
+	/**
+	 * Run a queued job from where it stopped, reporting progress as it goes
+	 *
+	 * Up to `concurrency` files are processed at once, with the provider's
+	 * rate limiter pacing the requests, until the job is done, halted,
+	 * paused or cancelled. Progress is saved after every file, so the job
+	 * can be resumed later.
+	 *
+	 * @param job - The job at the head of the queue
+	 * @returns The proposal note if a dry run finished, otherwise null
+	 */
+	async runJob(job: BulkJob): Promise<TFile | null> {
+		const total = job.files.length;
+		let haltReason: string | null = null;
+		// Files taken by a worker, or finished before the job was paused
+		const claimed = new Set(job.done);
+		let next = job.position;
+
+		const signal = JobManager.start(job);
+
+		// Initialize status bar with the job's progress
+		if (this.plugin) {
+			this.plugin.updateStatusBar(
+				this.countProcessed(job),
+				total,
+				job.task
+			);
+		}
+
+		// Track tokens and cost for this run, and journal tag changes so the
+		// run can be rolled back. A resumed job carries on with both, so the
+		// budget and a rollback cover the whole job.
+		const isFirstStart = job.position === 0 && job.done.length === 0;
+		if (isFirstStart) {
+			job.usage = UsageLedger.emptyTotals();
+		}
+		if (job.task === PromptType.TAG_GENERATION && !job.dryRun) {
+			if (isFirstStart || !job.journalRunId) {
+				job.journalRunId = RunJournal.startRun(job.scope);
+			} else {
+				RunJournal.resumeRun(job.journalRunId, job.scope);
+			}
+		}
+		const tagVersion =
+			job.task === PromptType.TAG_GENERATION
+				? await this.getTagVersion()
+				: null;
+
+		// The index of the next file to process, or null once workers should stop
+		const takeNext = (): number | null => {
+			if (haltReason !== null || !JobManager.shouldContinue(job)) {
+				return null;
+			}
+			// Stop cleanly between files once the budget is used up
+			const budgetExceeded = this.getBudgetExceeded(job);
+			if (budgetExceeded) {
+				haltReason = budgetExceeded;
+				return null;
+			}
+			while (next < total && claimed.has(next)) {
+				next++;
+			}
+			if (next >= total) {
+				return null;
+			}
+			claimed.add(next);
+			return next++;
+		};
+
+		const worker = async () => {
+			for (let index = takeNext(); index !== null; index = takeNext()) {
+				// Don't show individual notices
+				const result = await this.processJobFile(
+					job,
+					job.files[index],
+					tagVersion,
+					signal
+				);
+				if (signal.aborted) {
+					// Not finished, so a resumed job processes it again
+					return;
+				}
+				this.markDone(job, index);
+
+				if (!result) {
+					// Deleted or renamed since the job was queued
+					job.skipReasons["missing"] =
+						(job.skipReasons["missing"] || 0) + 1;
+				} else if (result.status === "failed") {
+					console.error(
+						`Error processing ${result.file.path}:`,
+						result.error
+					);
+					job.errors++;
+
+					// Stop early rather than repeat an error every file will hit
+					if (result.haltBatch && haltReason === null) {
+						haltReason = result.error || "Unknown error";
+					}
+				} else if (result.status === "skipped") {
+					const reason = result.skipReason || "other";
+					job.skipReasons[reason] =
+						(job.skipReasons[reason] || 0) + 1;
+				} else if (result.entry) {
+					const via = ProviderFactory.describeEntry(
+						result.entry,
+						this.settings
+					);
+					job.entryCounts[via] = (job.entryCounts[via] || 0) + 1;
+				}
+				JobManager.advance();
+
+				// Update status bar with progress
+				const processed = this.countProcessed(job);
+				if (this.plugin) {
+					this.plugin.updateStatusBar(processed, total, job.task);
+				}
+
+				// Show progress updates
+				if (processed % 5 === 0 || processed === total) {
+					new Notice(`Processed ${processed}/${total} files${job.scope}`);
+				}
+			}
+		};
+
+		await Promise.all(
+			Array.from(
+				{ length: Math.max(1, this.settings.concurrency) },
+				worker
+			)
 		);
 
-		// Reset status bar after completion
+		if (haltReason === null && job.position < total) {
+			if (!JobManager.isQueued(job)) {
+				// Cancelled while running
+				return await this.finishJob(job, "Cancelled.");
+			}
+			this.finishJournalRun(job);
+			if (job.state === "paused") {
+				new Notice(
+					`Paused after ${this.countProcessed(
+						job
+					)}/${total} files${job.scope}. Resume it from the status bar or the command palette.`
+				);
+			}
+			// Otherwise the plugin is unloading, the job resumes next time
+			return null;
+		}
+
+		JobManager.remove(job);
+		return await this.finishJob(job, haltReason);
+	}
+
+	/**
+	 * Process one file of a job
+	 *
+	 * @param job - The running job
+	 * @param path - The file's path when the job was queued
+	 * @param tagVersion - Prompt and models for incremental tag runs
+	 * @param signal - Aborts the provider requests
+	 * @returns The result, or null if the file no longer exists
+	 */
+	private async processJobFile(
+		job: BulkJob,
+		path: string,
+		tagVersion: { promptVersion: string; models: string[] } | null,
+		signal: AbortSignal
+	): Promise<ProcessFileResult | null> {
+		const file = this.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			return null;
+		}
+
+		if (tagVersion) {
+			// Exclusion rules come first, as in the estimate, so the counts match
+			const content = await this.vault.cachedRead(file);
+			const skipReason =
+				this.getSkipReason(file, content) ||
+				(await this.getIncrementalSkipReason(
+					content,
+					file.path,
+					tagVersion
+				));
+			if (skipReason) {
+				return { file, status: "skipped", skipReason };
+			}
+		}
+
+		// Requests made for the job count against its budget
+		const options: RequestOptions = { signal, usage: job.usage };
+		if (job.dryRun) {
+			const generation = await this.createTagProposal(
+				file,
+				false,
+				options
+			);
+			if (generation.proposal) {
+				job.proposals.push(
+					ProposalUtils.fromProposal(generation.proposal)
+				);
+			}
+			return generation.result;
+		}
+
+		const result = await this.runTask(file, job.task, options);
+		await this.journal(result, job.journalRunId);
+		return result;
+	}
+
+	/**
+	 * Record that a job's file is finished, moving the job's position past
+	 * every file finished in a row
+	 */
+	private markDone(job: BulkJob, index: number): void {
+		job.done.push(index);
+		while (job.done.includes(job.position)) {
+			const position = job.position;
+			job.done = job.done.filter((item) => item !== position);
+			job.position++;
+		}
+	}
+
+	/**
+	 * Stop journaling a job's tag changes, e.g. when it is paused or done
+	 */
+	private finishJournalRun(job: BulkJob): void {
+		if (job.journalRunId) {
+			RunJournal.finishRun(
+				job.journalRunId,
+				Object.keys(job.entryCounts).join(", ")
+			);
+		}
+	}
+
+	/**
+	 * Number of a job's files that are finished
+	 */
+	private countProcessed(job: BulkJob): number {
+		return job.position + job.done.length;
+	}
+
+	/**
+	 * Report the outcome of a job that won't run any further
+	 *
+	 * @param job - The finished, halted or cancelled job
+	 * @param stopReason - Why the job stopped early, or null if it finished
+	 * @returns The proposal note for dry runs, otherwise null
+	 */
+	async finishJob(
+		job: BulkJob,
+		stopReason: string | null
+	): Promise<TFile | null> {
+		const total = job.files.length;
+		const usage = job.usage;
+		this.finishJournalRun(job);
+		const skippedSummary = Object.entries(job.skipReasons)
+			.map(([reason, count]) => `${reason}: ${count}`)
+			.join(", ");
+		const providersUsed = Object.entries(job.entryCounts)
+			.map(([via, count]) => `${via}: ${count}`)
+			.join(", ");
+
+		let proposalNote: TFile | null = null;
+		if (job.dryRun && job.proposals.length > 0) {
+			// Workers finish out of order, list the notes in the job's order
+			const order = new Map(job.files.map((path, i) => [path, i]));
+			job.proposals.sort(
+				(a, b) => (order.get(a.path) || 0) - (order.get(b.path) || 0)
+			);
+			proposalNote = await this.writeProposalNote(
+				job.proposals,
+				job.scope,
+				job.skipReasons
+			);
+		}
+		const dryRunSummary = proposalNote
+			? ` Dry run: nothing was changed, proposals written to ${proposalNote.path}.`
+			: job.dryRun
+			? " Dry run: nothing was changed."
+			: "";
+
+		if (stopReason !== null) {
+			// Keep the notice up until dismissed so the user sees what to fix
+			new Notice(
+				`Stopped after ${this.countProcessed(
+					job
+				)}/${total} files${job.scope}. ${stopReason} Used ${UsageLedger.formatTotals(
+					usage
+				)}.${dryRunSummary}`,
+				0
+			);
+		} else {
+			// Show final completion notice with success and error counts
+			new Notice(
+				`Completed. Processed ${this.countProcessed(
+					job
+				)}/${total} files${job.scope}.` +
+					(job.errors > 0 ? ` Errors: ${job.errors}.` : "") +
+					(skippedSummary ? ` Skipped (${skippedSummary}).` : "") +
+					` Used ${UsageLedger.formatTotals(usage)}.` +
+					(providersUsed ? ` Providers used: ${providersUsed}.` : "") +
+					dryRunSummary
+			);
+		}
+
+		// Reset status bar after completion, unless another job started
 		setTimeout(() => {
-			if (this.plugin) {
+			if (this.plugin && JobManager.getActive() === null) {
 				this.plugin.updateStatusBar(0, 0);
 			}
 		}, 5000); // Reset after 5 seconds
+
+		return proposalNote;
+	}
+
+	/**
+	 * Write the proposals of a dry run to a new note at the vault root
+	 *
+	 * @returns The created note
+	 */
+	private async writeProposalNote(
+		proposals: ProposedTags[],
+		scope: string,
+		skipReasons: Record<string, number>
+	): Promise<TFile> {
+		const stamp = new Date()
+			.toISOString()
+			.slice(0, 16)
+			.replace("T", " ")
+			.replace(":", "");
+		let path = normalizePath(`Tag proposal ${stamp}.md`);
+		for (
+			let n = 2;
+			this.vault.getAbstractFileByPath(path) !== null;
+			n++
+		) {
+			path = normalizePath(`Tag proposal ${stamp} ${n}.md`);
+		}
+
+		return await this.vault.create(
+			path,
+			ProposalUtils.render(proposals, scope, skipReasons)
+		);
+	}
+
+	/**
+	 * Apply the rows left in an edited proposal note
+	 *
+	 * Each row's "Proposed tags" are written as they stand, keeping the
+	 * note's locked tags. Rows whose note can't be found are reported.
+	 *
+	 * @param note - The proposal note
+	 * @param resolveLink - Finds the note a row links to
+	 */
+	async applyProposal(
+		note: TFile,
+		resolveLink: (link: string, sourcePath: string) => TFile | null
+	): Promise<void> {
+		const rows = ProposalUtils.parse(await this.vault.read(note));
+		if (rows.length === 0) {
+			new Notice(`No proposal rows found in ${note.name}`);
+			return;
+		}
+
+		let changed = 0;
+		let unchanged = 0;
+		let errors = 0;
+		const missing: string[] = [];
+		const runId = RunJournal.startRun(` from ${note.basename}`);
+
+		for (const row of rows) {
+			const file = resolveLink(row.link, note.path);
+			if (!file || file.extension !== "md") {
+				missing.push(row.link);
+				continue;
+			}
+
+			const result = await this.applyTags(
+				file,
+				row.tags,
+				undefined,
+				false
+			);
+			await this.journal(result, runId);
+			if (result.status === "failed") {
+				errors++;
+			} else if (
+				(result.addedTags?.length || 0) +
+					(result.removedTags?.length || 0) >
+				0
+			) {
+				changed++;
+			} else {
+				unchanged++;
+			}
+		}
+
+		RunJournal.finishRun(runId, "");
+
+		new Notice(
+			`Applied ${note.name}: ${changed} notes changed, ${unchanged} unchanged.` +
+				(errors > 0 ? ` Errors: ${errors}.` : "") +
+				(missing.length > 0
+					? ` Not found: ${missing.join(", ")}.`
+					: ""),
+			missing.length > 0 || errors > 0 ? 0 : undefined
+		);
+	}
+
+	/**
+	 * Run a bulk task on one file, without individual notices
+	 *
+	 * @param file - The file to process
+	 * @param task - Which task the run performs
+	 * @param options - Signal and job usage totals for the provider requests
+	 * @returns The result for the file
+	 */
+	private async runTask(
+		file: TFile,
+		task: PromptType,
+		options: RequestOptions = {}
+	): Promise<ProcessFileResult> {
+		switch (task) {
+			case PromptType.EXCERPT_GENERATION:
+				return await this.processExcerpt(file, false, options);
+			case PromptType.METADATA_EXTRACTION:
+				return await this.processMetadata(file, false, options);
+			default:
+				return await this.processFile(file, false, options);
+		}
+	}
+
+	/**
+	 * Record a file's tag change in the run journal
+	 *
+	 * @param result - The result of tagging the file
+	 * @param runId - The journal run to record it in, null for none
+	 */
+	private async journal(
+		result: ProcessFileResult,
+		runId: string | null
+	): Promise<void> {
+		if (
+			runId === null ||
+			result.status !== "updated" ||
+			!result.tags ||
+			result.previousTags === undefined
+		) {
+			return;
+		}
+		if (
+			(result.addedTags?.length || 0) +
+				(result.removedTags?.length || 0) ===
+				0 &&
+			result.previousTags !== null
+		) {
+			// Nothing to roll back
+			return;
+		}
+
+		RunJournal.record(runId, {
+			path: result.file.path,
+			previousTags: result.previousTags,
+			newTags: result.tags,
+			hash: await HashUtils.sha256(await this.vault.read(result.file)),
+		});
+	}
+
+	/**
+	 * Restore the tags a journaled run replaced
+	 *
+	 * Files that were edited, moved or deleted after the run are skipped,
+	 * so later changes aren't lost. Restored notes are dropped from the tag
+	 * index, so incremental runs and auto-tagging tag them again, and the
+	 * run is dropped from the journal once it has been rolled back.
+	 *
+	 * @param run - The run to roll back
+	 */
+	async rollbackRun(run: JournalRun): Promise<void> {
+		let restored = 0;
+		const skipped: string[] = [];
+
+		for (const entry of run.files) {
+			const file = this.vault.getAbstractFileByPath(entry.path);
+			if (!(file instanceof TFile)) {
+				skipped.push(`${entry.path} (missing)`);
+				continue;
+			}
+
+			try {
+				const hash = await HashUtils.sha256(await this.vault.read(file));
+				if (hash !== entry.hash) {
+					skipped.push(`${entry.path} (edited after the run)`);
+					continue;
+				}
+
+				await this.fileManager.processFrontMatter(
+					file,
+					(frontmatter) => {
+						if (entry.previousTags === null) {
+							delete frontmatter["tags"];
+						} else {
+							frontmatter["tags"] = entry.previousTags;
+						}
+					}
+				);
+				// The note no longer has the tags the index says it was given
+				TagIndex.remove(entry.path);
+				restored++;
+			} catch (error) {
+				console.error(`Error rolling back ${entry.path}:`, error);
+				skipped.push(`${entry.path} (error)`);
+			}
+		}
+
+		RunJournal.removeRun(run.id);
+
+		if (skipped.length > 0) {
+			console.warn("Files skipped by rollback:", skipped);
+		}
+		const listed = skipped.slice(0, 10).join(", ");
+		const more =
+			skipped.length > 10 ? ` and ${skipped.length - 10} more` : "";
+		new Notice(
+			`Rolled back ${restored} of ${run.files.length} files.` +
+				(skipped.length > 0
+					? ` Skipped ${skipped.length}: ${listed}${more}.`
+					: ""),
+			skipped.length > 0 ? 0 : undefined
+		);
+	}
+
+	/**
+	 * Queue all markdown files in a directory and its subdirectories
+	 *
+	 * @param folder - The root folder to process
+	 * @param task - Whether to generate tags, excerpts or metadata
+	 * @param dryRun - Write proposed tags to a proposal note instead
+	 * @returns The queued job, or null if the folder has no notes
+	 */
+	queueDirectory(
+		folder: TFolder,
+		task: PromptType = PromptType.TAG_GENERATION,
+		dryRun: boolean = false
+	): BulkJob | null {
+		// Collect all markdown files from the folder and its subfolders
+		const files = FileUtils.collectMarkdownFiles(folder);
+
+		if (files.length === 0) {
+			new Notice(
+				`No markdown files found in ${folder.path} or its subfolders`
+			);
+			return null;
+		}
+
+		return this.queueFiles(
+			files,
+			` in ${folder.path} and subfolders`,
+			task,
+			dryRun
+		);
+	}
+
+	/**
+	 * Queue all markdown files in the vault
+	 *
+	 * @param task - Whether to generate tags, excerpts or metadata
+	 * @param dryRun - Write proposed tags to a proposal note instead
+	 * @returns The queued job
+	 */
+	queueAllFiles(
+		task: PromptType = PromptType.TAG_GENERATION,
+		dryRun: boolean = false
+	): BulkJob {
+		return this.queueFiles(this.vault.getMarkdownFiles(), "", task, dryRun);
+	}
+
+	/**
+	 * Add a job for a set of files to the queue
+	 *
+	 * @returns The queued job
+	 */
+	private queueFiles(
+		files: TFile[],
+		scope: string,
+		task: PromptType,
+		dryRun: boolean
+	): BulkJob {
+		const waiting = JobManager.getActive() !== null;
+		const job = JobManager.enqueue(
+			files.map((file) => file.path),
+			scope,
+			task,
+			dryRun
+		);
+
+		new Notice(
+			waiting
+				? `Queued ${files.length} files${scope}. The job starts when the ones ahead of it finish.`
+				: `Processing ${files.length} files${scope}...`
+		);
+		return job;
 	}
 }
@@ -0,0 +1,276 @@
+import { DataAdapter, debounce } from "obsidian";
+import { PromptType } from "../types";
+import { JsonStore } from "../utils/json-store";
+import { UsageTotals } from "./usage-ledger";
+import { ProposedTags } from "../utils/proposal-utils";
+
+// Queued jobs wait for the one ahead of them, paused jobs for the user
+export type JobState = "queued" | "running" | "paused";
+
+/**
+ * A bulk run and how far it got
+ */
+export interface BulkJob {
+	id: string;
+	task: PromptType;
+	// Description of the files in the job, used in notices
+	scope: string;
+	dryRun: boolean;
+	// Paths of the files in the job, in processing order
+	files: string[];
+	// Number of files at the start of the list that are finished
+	position: number;
+	// Indexes of files after the position that finished early
+	done: number[];
+	state: JobState;
+	// When the job was queued, in ms since epoch
+	createdAt: number;
+	errors: number;
+	skipReasons: Record<string, number>;
+	// Files processed by each chain entry
+	entryCounts: Record<string, number>;
+	// Tokens and cost used so far, checked against the run budget
+	usage: UsageTotals;
+	// Journal run recording the job's tag changes, null until it starts
+	journalRunId: string | null;
+	// Tags proposed so far by a dry run
+	proposals: ProposedTags[];
+}
+
+interface JobQueueData {
+	jobs: BulkJob[];
+}
+
+/**
+ * Persistent queue of bulk runs
+ *
+ * Only the job at the head of the queue runs; jobs queued later wait
+ * behind it. Progress is saved after every file, so a job interrupted by
+ * closing Obsidian picks up where it stopped the next time the plugin
+ * loads. The head job can be paused, resumed or cancelled between files.
+ * Cancelling it, or unloading the plugin, also aborts the requests it has
+ * in flight.
+ */
+export class JobManager {
+	private static store: JsonStore<JobQueueData> | null = null;
+	private static data: JobQueueData = { jobs: [] };
+	// Set while the plugin unloads, so the running job stops where it is
+	private static stopping = false;
+	// Aborts the running job's requests
+	private static controller: AbortController | null = null;
+	private static changeListener: (() => void) | null = null;
+	private static requestSave = debounce(
+		() => {
+			JobManager.store?.save(JobManager.data);
+		},
+		2000,
+		false
+	);
+
+	/**
+	 * Load the queue from the plugin folder
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 */
+	static async initialize(
+		adapter: DataAdapter,
+		pluginDir: string
+	): Promise<void> {
+		this.store = new JsonStore<JobQueueData>(
+			adapter,
+			pluginDir,
+			"job-queue.json"
+		);
+		this.data = await this.store.load({ jobs: [] });
+		this.stopping = false;
+	}
+
+	/**
+	 * Write any pending changes immediately, e.g. when the plugin unloads
+	 */
+	static flush(): void {
+		this.requestSave.cancel();
+		this.store?.save(this.data);
+	}
+
+	/**
+	 * Stop the running job after its current file and save the queue
+	 *
+	 * The job keeps its state, so it resumes when the plugin next loads.
+	 */
+	static stop(): void {
+		this.stopping = true;
+		this.controller?.abort();
+		this.flush();
+	}
+
+	/**
+	 * Register a listener called whenever the queue or a job's progress
+	 * changes
+	 */
+	static onChange(listener: () => void): void {
+		this.changeListener = listener;
+	}
+
+	/**
+	 * Add a job to the end of the queue
+	 *
+	 * @param files - Paths of the files to process
+	 * @param scope - Description of the files, used in notices
+	 * @param task - Whether to generate tags, excerpts or metadata
+	 * @param dryRun - Write proposed tags to a proposal note instead
+	 * @returns The queued job
+	 */
+	static enqueue(
+		files: string[],
+		scope: string,
+		task: PromptType,
+		dryRun: boolean
+	): BulkJob {
+		const job: BulkJob = {
+			id: `${Date.now().toString(36)}-${Math.random()
+				.toString(36)
+				.slice(2, 6)}`,
+			task,
+			scope,
+			dryRun,
+			files,
+			position: 0,
+			done: [],
+			state: "queued",
+			createdAt: Date.now(),
+			errors: 0,
+			skipReasons: {},
+			entryCounts: {},
+			usage: { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
+			journalRunId: null,
+			proposals: [],
+		};
+		this.data.jobs.push(job);
+		this.changed(true);
+		return job;
+	}
+
+	/**
+	 * Get the job at the head of the queue, running or not
+	 */
+	static getActive(): BulkJob | null {
+		return this.data.jobs[0] || null;
+	}
+
+	/**
+	 * Number of jobs waiting behind the active one
+	 */
+	static getQueuedCount(): number {
+		return Math.max(0, this.data.jobs.length - 1);
+	}
+
+	/**
+	 * Whether a job should go on to its next file
+	 *
+	 * False once the job was paused or cancelled, or the plugin unloads.
+	 */
+	static shouldContinue(job: BulkJob): boolean {
+		return (
+			!this.stopping &&
+			this.data.jobs[0] === job &&
+			job.state === "running"
+		);
+	}
+
+	/**
+	 * Whether a job is still in the queue
+	 */
+	static isQueued(job: BulkJob): boolean {
+		return this.data.jobs.includes(job);
+	}
+
+	/**
+	 * Mark the active job as running
+	 *
+	 * @returns A signal that aborts once the job is cancelled or the plugin
+	 * unloads
+	 */
+	static start(job: BulkJob): AbortSignal {
+		job.state = "running";
+		this.controller = new AbortController();
+		this.changed(true);
+		return this.controller.signal;
+	}
+
+	/**
+	 * Save a job's progress after a file
+	 */
+	static advance(): void {
+		this.changed(false);
+	}
+
+	/**
+	 * Pause the active job after its current file
+	 *
+	 * @returns The paused job, or null if no job was running
+	 */
+	static pause(): BulkJob | null {
+		const job = this.getActive();
+		if (!job || job.state === "paused") {
+			return null;
+		}
+		job.state = "paused";
+		this.changed(true);
+		return job;
+	}
+
+	/**
+	 * Let a paused job run again
+	 *
+	 * @returns The resumed job, or null if the active job wasn't paused
+	 */
+	static resume(): BulkJob | null {
+		const job = this.getActive();
+		if (!job || job.state !== "paused") {
+			return null;
+		}
+		job.state = "queued";
+		this.changed(true);
+		return job;
+	}
+
+	/**
+	 * Remove the active job from the queue, so the next one can start
+	 *
+	 * @returns The cancelled job, or null if the queue was empty
+	 */
+	static cancel(): BulkJob | null {
+		const job = this.getActive();
+		if (job) {
+			if (job.state === "running") {
+				this.controller?.abort();
+			}
+			this.remove(job);
+		}
+		return job;
+	}
+
+	/**
+	 * Drop a job from the queue once it has finished or stopped
+	 */
+	static remove(job: BulkJob): void {
+		this.data.jobs = this.data.jobs.filter((item) => item !== job);
+		this.changed(true);
+	}
+
+	/**
+	 * Save the queue and tell the listener
+	 *
+	 * @param immediate - Write now rather than after a pause in changes
+	 */
+	private static changed(immediate: boolean): void {
+		if (immediate) {
+			this.flush();
+		} else {
+			this.requestSave();
+		}
+		this.changeListener?.();
+	}
+}
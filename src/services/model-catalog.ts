@@ -0,0 +1,243 @@
+import { DataAdapter } from "obsidian";
+import {
+	AIExcerptSettings,
+	CLAUDE_MODELS,
+	LLMProvider,
+	OPENAI_MODELS,
+} from "../types";
+import { JsonStore } from "../utils/json-store";
+import { ClaudeProvider } from "../providers/claude-provider";
+import { OpenAIProvider } from "../providers/openai-provider";
+import { OpenAICompatibleProvider } from "../providers/openai-compatible-provider";
+import { OllamaProvider } from "../providers/ollama-provider";
+
+/**
+ * Models fetched from one provider
+ */
+interface CatalogEntry {
+	models: string[];
+	// When the list was fetched, in ms since epoch
+	fetchedAt: number;
+	// Host or base URL the list was fetched from, for self-hosted providers
+	source: string;
+}
+
+type CatalogData = Partial<Record<LLMProvider, CatalogEntry>>;
+
+/**
+ * Cache of the models each provider offers, fetched from their models
+ * endpoints
+ *
+ * The settings tab fills its model dropdowns from here. When a provider
+ * hasn't been queried yet, or can't be reached, the static lists in
+ * types.ts are used instead.
+ */
+export class ModelCatalog {
+	// Lists older than this are refreshed when the settings tab opens
+	static readonly maxAge = 24 * 60 * 60 * 1000;
+
+	private static store: JsonStore<CatalogData> | null = null;
+	private static data: CatalogData = {};
+
+	/**
+	 * Load the cached model lists from the plugin folder
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 */
+	static async initialize(
+		adapter: DataAdapter,
+		pluginDir: string
+	): Promise<void> {
+		this.store = new JsonStore<CatalogData>(
+			adapter,
+			pluginDir,
+			"model-cache.json"
+		);
+		this.data = await this.store.load({});
+	}
+
+	/**
+	 * Get the cached entry for a provider, ignoring lists fetched from a
+	 * different host than the one currently configured
+	 */
+	private static getEntry(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): CatalogEntry | null {
+		const entry = this.data[provider];
+		if (!entry || entry.source !== this.getSource(provider, settings)) {
+			return null;
+		}
+		return entry;
+	}
+
+	/**
+	 * Where a provider's models come from, so a changed host invalidates
+	 * the cache
+	 */
+	private static getSource(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): string {
+		switch (provider) {
+			case LLMProvider.OLLAMA:
+				return settings.ollamaHost.trim();
+			case LLMProvider.OPENAI_COMPATIBLE:
+				return OpenAICompatibleProvider.normalizeBaseUrl(
+					settings.compatibleBaseUrl
+				);
+			default:
+				return "";
+		}
+	}
+
+	/**
+	 * Get the models to offer for a provider
+	 *
+	 * @returns The cached list, or the static fallback if there is none
+	 */
+	static getModels(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): string[] {
+		const entry = this.getEntry(provider, settings);
+		if (entry) {
+			return entry.models;
+		}
+
+		switch (provider) {
+			case LLMProvider.CLAUDE:
+				return CLAUDE_MODELS;
+			case LLMProvider.OPENAI:
+				return OPENAI_MODELS;
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * When the cached list for a provider was fetched
+	 *
+	 * @returns Time in ms since epoch, or null if the static list is in use
+	 */
+	static getFetchedAt(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): number | null {
+		return this.getEntry(provider, settings)?.fetchedAt ?? null;
+	}
+
+	/**
+	 * Whether the cached list is missing or older than `maxAge`
+	 */
+	static isStale(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): boolean {
+		const fetchedAt = this.getFetchedAt(provider, settings);
+		return fetchedAt === null || Date.now() - fetchedAt > this.maxAge;
+	}
+
+	/**
+	 * Whether a model is known to be unavailable
+	 *
+	 * Only a live list can prove a model is gone, so this is false while
+	 * the static fallback is in use.
+	 */
+	static isMissing(
+		provider: LLMProvider,
+		model: string,
+		settings: AIExcerptSettings
+	): boolean {
+		const entry = this.getEntry(provider, settings);
+		return !!entry && !!model && !entry.models.includes(model);
+	}
+
+	/**
+	 * Whether enough is configured to query a provider's models endpoint
+	 */
+	static canFetch(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): boolean {
+		switch (provider) {
+			case LLMProvider.CLAUDE:
+				return !!settings.claudeApiKey;
+			case LLMProvider.OPENAI:
+				return !!settings.openaiApiKey;
+			case LLMProvider.OLLAMA:
+				return !!settings.ollamaHost;
+			case LLMProvider.OPENAI_COMPATIBLE:
+				return !!settings.compatibleBaseUrl;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Fetch the current model list from a provider and cache it
+	 *
+	 * @param provider - The provider to query
+	 * @param settings - Settings holding the provider's credentials
+	 * @returns The fetched models
+	 * @throws Error if the provider can't be reached
+	 */
+	static async refresh(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): Promise<string[]> {
+		const models = await this.fetchModels(provider, settings);
+		this.data[provider] = {
+			models,
+			fetchedAt: Date.now(),
+			source: this.getSource(provider, settings),
+		};
+		await this.store?.save(this.data);
+		return models;
+	}
+
+	/**
+	 * Query a provider's models endpoint
+	 */
+	private static async fetchModels(
+		provider: LLMProvider,
+		settings: AIExcerptSettings
+	): Promise<string[]> {
+		switch (provider) {
+			case LLMProvider.CLAUDE:
+				return await ClaudeProvider.listModels(settings.claudeApiKey);
+			case LLMProvider.OPENAI:
+				return (
+					await OpenAIProvider.listModels(settings.openaiApiKey)
+				).filter((model) => this.isOpenAIChatModel(model));
+			case LLMProvider.OLLAMA:
+				return await OllamaProvider.listModels(settings.ollamaHost);
+			case LLMProvider.OPENAI_COMPATIBLE:
+				return await OpenAIProvider.listModels(
+					settings.compatibleApiKey || "not-needed",
+					{
+						baseURL: OpenAICompatibleProvider.normalizeBaseUrl(
+							settings.compatibleBaseUrl
+						),
+						defaultHeaders: OpenAICompatibleProvider.parseHeaders(
+							settings.compatibleHeaders
+						),
+					}
+				);
+		}
+	}
+
+	/**
+	 * OpenAI's models endpoint also lists embedding, audio and image models
+	 * that can't generate tags
+	 */
+	private static isOpenAIChatModel(model: string): boolean {
+		return (
+			/^(gpt-|o\d|chatgpt-)/.test(model) &&
+			!/(audio|realtime|transcribe|tts|search|image|embedding|instruct)/.test(
+				model
+			)
+		);
+	}
+}
@@ -0,0 +1,180 @@
+import { DataAdapter, debounce } from "obsidian";
+import { JsonStore } from "../utils/json-store";
+
+/**
+ * One file changed by a run
+ */
+export interface JournalEntry {
+	path: string;
+	// Tags before the run, null if the note had no tags property
+	previousTags: string[] | null;
+	newTags: string[];
+	// SHA-256 of the file right after the run wrote it
+	hash: string;
+}
+
+/**
+ * A tagging run and the files it changed
+ */
+export interface JournalRun {
+	id: string;
+	// When the run started, in ms since epoch
+	timestamp: number;
+	scope: string;
+	// Chain entries that produced the tags
+	model: string;
+	files: JournalEntry[];
+}
+
+interface JournalData {
+	runs: JournalRun[];
+}
+
+/**
+ * Persistent journal of tagging runs, so a run can be rolled back
+ *
+ * Bulk runs open a run here and record every file they change, with its
+ * tags before and after. The most recent runs are kept.
+ */
+export class RunJournal {
+	// Older runs are dropped from the journal
+	static readonly maxRuns = 20;
+
+	private static store: JsonStore<JournalData> | null = null;
+	private static data: JournalData = { runs: [] };
+	// Runs being journaled, by id. A bulk job and an applied proposal can
+	// be journaled at the same time.
+	private static open: Map<string, JournalRun> = new Map();
+	private static requestSave = debounce(
+		() => {
+			RunJournal.store?.save(RunJournal.data);
+		},
+		2000,
+		false
+	);
+
+	/**
+	 * Load the journal from the plugin folder
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 */
+	static async initialize(
+		adapter: DataAdapter,
+		pluginDir: string
+	): Promise<void> {
+		this.store = new JsonStore<JournalData>(
+			adapter,
+			pluginDir,
+			"run-journal.json"
+		);
+		this.data = await this.store.load({ runs: [] });
+	}
+
+	/**
+	 * Write any pending changes immediately, e.g. when the plugin unloads
+	 */
+	static flush(): void {
+		this.requestSave.cancel();
+		this.store?.save(this.data);
+	}
+
+	/**
+	 * Start journaling a run
+	 *
+	 * @param scope - Description of the files in the run
+	 * @returns The run's id, to resume it later
+	 */
+	static startRun(scope: string): string {
+		const id = `${Date.now().toString(36)}-${Math.random()
+			.toString(36)
+			.slice(2, 6)}`;
+		this.open.set(id, this.createRun(id, scope));
+		return id;
+	}
+
+	/**
+	 * Continue journaling a run that was stopped earlier, e.g. a paused job
+	 *
+	 * Files changed after the resume are added to the same run, so rolling
+	 * it back covers the whole job.
+	 *
+	 * @param id - The id returned by `startRun`
+	 * @param scope - Description of the files in the run
+	 */
+	static resumeRun(id: string, scope: string): void {
+		// Runs that haven't changed a file yet aren't in the journal
+		this.open.set(
+			id,
+			this.data.runs.find((run) => run.id === id) ||
+				this.createRun(id, scope)
+		);
+	}
+
+	/**
+	 * Record a file changed by a run
+	 *
+	 * The run is added to the journal with its first file, so runs that
+	 * changed nothing don't push older runs out.
+	 *
+	 * @param id - The id returned by `startRun`
+	 * @param entry - The file's path, tags and hash after the change
+	 */
+	static record(id: string, entry: JournalEntry): void {
+		const run = this.open.get(id);
+		if (!run) return;
+
+		if (run.files.length === 0) {
+			this.data.runs = [run, ...this.data.runs].slice(0, this.maxRuns);
+		}
+		run.files.push(entry);
+		this.requestSave();
+	}
+
+	/**
+	 * Stop journaling a run
+	 *
+	 * @param id - The id returned by `startRun`
+	 * @param model - The chain entries that produced the tags
+	 */
+	static finishRun(id: string, model: string): void {
+		const run = this.open.get(id);
+		if (run && run.files.length > 0) {
+			run.model = model;
+			this.flush();
+		}
+		this.open.delete(id);
+	}
+
+	/**
+	 * Get the journaled runs, most recent first
+	 */
+	static getRuns(): JournalRun[] {
+		return this.data.runs;
+	}
+
+	/**
+	 * Drop a run from the journal once it has been rolled back
+	 *
+	 * @param id - The run's id
+	 */
+	static removeRun(id: string): void {
+		this.data.runs = this.data.runs.filter((run) => run.id !== id);
+		this.flush();
+	}
+
+	private static createRun(id: string, scope: string): JournalRun {
+		return { id, timestamp: Date.now(), scope, model: "", files: [] };
+	}
+
+	/**
+	 * Describe a run for lists and notices
+	 */
+	static describeRun(run: JournalRun): string {
+		const when = new Date(run.timestamp).toLocaleString();
+		const scope = run.scope.trim() || "whole vault";
+		return `${when} · ${scope} · ${run.files.length} files${
+			run.model ? ` · ${run.model}` : ""
+		}`;
+	}
+}
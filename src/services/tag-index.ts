@@ -0,0 +1,108 @@
+import { DataAdapter, debounce } from "obsidian";
+import { JsonStore } from "../utils/json-store";
+
+/**
+ * What a note was last tagged from
+ */
+export interface TagIndexEntry {
+	// SHA-256 of the note body, without frontmatter
+	hash: string;
+	// Version of the tag prompt template used
+	promptVersion: string;
+	// Chain entry that produced the tags
+	model: string;
+	// When the note was tagged, in ms since epoch
+	taggedAt: number;
+}
+
+interface TagIndexData {
+	files: Record<string, TagIndexEntry>;
+}
+
+/**
+ * Persistent record of the content, prompt and model each note was last
+ * tagged with
+ *
+ * Bulk runs use it to skip notes that haven't changed since they were
+ * tagged. Entries are keyed by path and follow renames.
+ */
+export class TagIndex {
+	private static store: JsonStore<TagIndexData> | null = null;
+	private static data: TagIndexData = { files: {} };
+	private static requestSave = debounce(
+		() => {
+			TagIndex.store?.save(TagIndex.data);
+		},
+		2000,
+		false
+	);
+
+	/**
+	 * Load the index from the plugin folder
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 */
+	static async initialize(
+		adapter: DataAdapter,
+		pluginDir: string
+	): Promise<void> {
+		this.store = new JsonStore<TagIndexData>(
+			adapter,
+			pluginDir,
+			"tag-index.json"
+		);
+		this.data = await this.store.load({ files: {} });
+	}
+
+	/**
+	 * Write any pending changes immediately, e.g. when the plugin unloads
+	 */
+	static flush(): void {
+		this.requestSave.cancel();
+		this.store?.save(this.data);
+	}
+
+	/**
+	 * Get what a note was last tagged from
+	 *
+	 * @param path - The note's path
+	 * @returns The entry, or null if the note was never tagged by the plugin
+	 */
+	static get(path: string): TagIndexEntry | null {
+		return this.data.files[path] || null;
+	}
+
+	/**
+	 * Record that a note was tagged
+	 *
+	 * @param path - The note's path
+	 * @param entry - The body hash, prompt version and model used
+	 */
+	static set(path: string, entry: TagIndexEntry): void {
+		this.data.files[path] = entry;
+		this.requestSave();
+	}
+
+	/**
+	 * Move an entry when its note is renamed
+	 */
+	static rename(oldPath: string, newPath: string): void {
+		const entry = this.data.files[oldPath];
+		if (!entry) return;
+
+		delete this.data.files[oldPath];
+		this.data.files[newPath] = entry;
+		this.requestSave();
+	}
+
+	/**
+	 * Drop an entry when its note is deleted
+	 */
+	static remove(path: string): void {
+		if (!this.data.files[path]) return;
+
+		delete this.data.files[path];
+		this.requestSave();
+	}
+}
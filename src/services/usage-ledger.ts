@@ -0,0 +1,157 @@
+import { DataAdapter, debounce } from "obsidian";
+import { LLMProvider } from "../types";
+import { JsonStore } from "../utils/json-store";
+import { Pricing } from "../utils/pricing";
+
+/**
+ * Token and cost totals for a set of requests
+ */
+export interface UsageTotals {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	cost: number;
+}
+
+/**
+ * Totals for one provider and model
+ */
+export interface ModelUsage extends UsageTotals {
+	provider: LLMProvider;
+	model: string;
+}
+
+interface LedgerData {
+	// When the ledger was started or last reset, in ms since epoch
+	since: number;
+	models: Record<string, ModelUsage>;
+}
+
+/**
+ * Persistent ledger of token usage and cost per provider and model
+ *
+ * Providers record every request here. Requests made for a bulk job are
+ * also added to the job's own totals, so they can be reported and checked
+ * against the configured budget without counting unrelated requests.
+ */
+export class UsageLedger {
+	private static store: JsonStore<LedgerData> | null = null;
+	private static data: LedgerData = { since: Date.now(), models: {} };
+	private static requestSave = debounce(
+		() => {
+			UsageLedger.store?.save(UsageLedger.data);
+		},
+		2000,
+		false
+	);
+
+	/**
+	 * Load the ledger from the plugin folder
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 */
+	static async initialize(
+		adapter: DataAdapter,
+		pluginDir: string
+	): Promise<void> {
+		this.store = new JsonStore<LedgerData>(
+			adapter,
+			pluginDir,
+			"usage-ledger.json"
+		);
+		this.data = await this.store.load({ since: Date.now(), models: {} });
+	}
+
+	/**
+	 * Write any pending changes immediately, e.g. when the plugin unloads
+	 */
+	static flush(): void {
+		this.requestSave.cancel();
+		this.store?.save(this.data);
+	}
+
+	/**
+	 * Record the tokens used by one request
+	 *
+	 * @param provider - The provider type that served the request
+	 * @param model - The model used
+	 * @param inputTokens - Prompt tokens
+	 * @param outputTokens - Completion tokens
+	 * @param job - Totals of the bulk job the request was made for, if any
+	 */
+	static record(
+		provider: LLMProvider,
+		model: string,
+		inputTokens: number,
+		outputTokens: number,
+		job?: UsageTotals
+	): void {
+		const cost = Pricing.estimateCost(model, inputTokens, outputTokens);
+		const key = `${provider}:${model}`;
+
+		const usage = this.data.models[key] || {
+			provider,
+			model,
+			...this.emptyTotals(),
+		};
+		this.addTo(usage, inputTokens, outputTokens, cost);
+		this.data.models[key] = usage;
+
+		if (job) {
+			this.addTo(job, inputTokens, outputTokens, cost);
+		}
+
+		this.requestSave();
+	}
+
+	/**
+	 * Get the totals for every provider and model
+	 */
+	static getModelUsage(): ModelUsage[] {
+		return Object.values(this.data.models);
+	}
+
+	/**
+	 * When the ledger started counting
+	 */
+	static getSince(): number {
+		return this.data.since;
+	}
+
+	/**
+	 * Clear all recorded usage
+	 */
+	static reset(): void {
+		this.data = { since: Date.now(), models: {} };
+		this.flush();
+	}
+
+	/**
+	 * Format totals for a notice, e.g. "12,345 in / 678 out tokens (~$0.05)"
+	 */
+	static formatTotals(totals: UsageTotals): string {
+		return `${totals.inputTokens.toLocaleString()} in / ${totals.outputTokens.toLocaleString()} out tokens (~${Pricing.formatCost(
+			totals.cost
+		)})`;
+	}
+
+	/**
+	 * Create zeroed totals, e.g. for a new bulk job
+	 */
+	static emptyTotals(): UsageTotals {
+		return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+	}
+
+	private static addTo(
+		totals: UsageTotals,
+		inputTokens: number,
+		outputTokens: number,
+		cost: number
+	): void {
+		totals.requests++;
+		totals.inputTokens += inputTokens;
+		totals.outputTokens += outputTokens;
+		totals.cost += cost;
+	}
+}
@@ -1,12 +1,34 @@
-import { App, Plugin, PluginSettingTab, Setting } from "obsidian";
+import {
+	App,
+	normalizePath,
+	Plugin,
+	PluginSettingTab,
+	Setting,
+	TFile,
+} from "obsidian";
 import {
 	AIExcerptPlugin,
 	AIExcerptSettings,
-	CLAUDE_MODELS,
+	ChunkMergeMode,
+	FieldCardinality,
+	IncrementalMode,
 	LLMProvider,
-	OPENAI_MODELS,
+	MetadataField,
+	PROVIDER_LABELS,
 	PromptType,
+	ProviderChainEntry,
+	ReplayMode,
+	TagMergeMode,
 } from "./types";
+import { ProviderFactory } from "./providers/provider-factory";
+import { CircuitState } from "./providers/circuit-breaker";
+import { UsageLedger } from "./services/usage-ledger";
+import { ModelCatalog } from "./services/model-catalog";
+import { ReplayFixtures } from "./providers/replay-provider";
+import { Pricing } from "./utils/pricing";
+import { Prompts } from "./utils/prompts";
+import { TagUtils } from "./utils/tag-utils";
+import { RunConfirmationModal } from "./modals/run-confirmation-modal";
 
 export const DEFAULT_SETTINGS: AIExcerptSettings = {
 	provider: LLMProvider.CLAUDE,
@@ -15,11 +37,78 @@ export const DEFAULT_SETTINGS: AIExcerptSettings = {
 	claudeModel: "claude-3-7-sonnet-20250219",
 	openaiApiKey: "",
 	openaiModel: "gpt-4o",
+	ollamaHost: "http://localhost:11434",
+	ollamaModel: "",
+	compatibleBaseUrl: "",
+	compatibleApiKey: "",
+	compatibleModel: "",
+	compatibleHeaders: "",
+	compatibleStrictSchema: true,
+	providerChain: [],
+	runTokenBudget: 0,
+	runCostBudget: 0,
+	priceOverrides: "",
+	chunkMergeMode: ChunkMergeMode.FREQUENCY,
+	chunkThreshold: 8000,
+	chunkSize: 3000,
+	replayMode: ReplayMode.OFF,
+	tagPromptPath: "",
 	tagPrefix: "",
+	excerptKey: "excerpt",
+	excerptMaxLength: 200,
+	excerptOverwrite: false,
+	metadataFields: [],
+	tagMergeMode: TagMergeMode.REPLACE,
+	tagMergeCap: 10,
+	reviewTags: false,
+	incrementalMode: IncrementalMode.CHANGED,
+	includePatterns: [],
+	excludePatterns: [],
+	skipTags: [],
+	minWords: 0,
+	autoTag: false,
+	autoTagFolders: [],
+	autoTagMinWords: 50,
+	autoTagQuietMinutes: 5,
+	concurrency: 3,
+	requestTimeout: 60,
+	// The lowest paid tiers of the hosted APIs; local servers are unlimited
+	rateLimits: {
+		[LLMProvider.CLAUDE]: { requestsPerMinute: 50, tokensPerMinute: 40000 },
+		[LLMProvider.OPENAI]: { requestsPerMinute: 500, tokensPerMinute: 30000 },
+		[LLMProvider.OLLAMA]: { requestsPerMinute: 0, tokensPerMinute: 0 },
+		[LLMProvider.OPENAI_COMPATIBLE]: {
+			requestsPerMinute: 60,
+			tokensPerMinute: 0,
+		},
+	},
+};
+
+/**
+ * Settings key holding the selected model of each provider
+ */
+const MODEL_SETTING_KEYS: Record<
+	LLMProvider,
+	"claudeModel" | "openaiModel" | "ollamaModel" | "compatibleModel"
+> = {
+	[LLMProvider.CLAUDE]: "claudeModel",
+	[LLMProvider.OPENAI]: "openaiModel",
+	[LLMProvider.OLLAMA]: "ollamaModel",
+	[LLMProvider.OPENAI_COMPATIBLE]: "compatibleModel",
 };
 
+// Dropdown value that switches the model setting to a free-text id
+const CUSTOM_MODEL_OPTION = "__custom__";
+
 export class AIExcerptSettingTab extends PluginSettingTab {
 	plugin: AIExcerptPlugin;
+	// Providers whose model is being entered as a custom id
+	private customModel = new Set<LLMProvider>();
+	// Providers with a model list request in flight
+	private refreshing = new Set<LLMProvider>();
+	// Last model list error per provider, so a failing endpoint isn't
+	// queried again on every redraw
+	private refreshErrors = new Map<LLMProvider, string>();
 
 	constructor(app: App, plugin: Plugin & AIExcerptPlugin) {
 		super(app, plugin);
@@ -40,6 +129,11 @@ export class AIExcerptSettingTab extends PluginSettingTab {
 				dropdown
 					.addOption(LLMProvider.CLAUDE, "Claude (Anthropic)")
 					.addOption(LLMProvider.OPENAI, "OpenAI")
+					.addOption(LLMProvider.OLLAMA, "Ollama (local)")
+					.addOption(
+						LLMProvider.OPENAI_COMPATIBLE,
+						"OpenAI-compatible endpoint"
+					)
 					.setValue(this.plugin.settings.provider)
 					.onChange(async (value: string) => {
 						this.plugin.settings.provider = value as LLMProvider;
@@ -64,22 +158,12 @@ export class AIExcerptSettingTab extends PluginSettingTab {
 						})
 				);
 
-			new Setting(containerEl)
-				.setName("Claude Model")
-				.setDesc(
-					"Select which Claude model to use. Claude 3.7 Sonnet offers the best balance of quality and speed. Claude 3.5 Haiku is faster but simpler. Claude 3 Opus is highest quality but slower."
-				)
-				.addDropdown((dropdown) => {
-					CLAUDE_MODELS.forEach((model) => {
-						dropdown.addOption(model, model);
-					});
-					dropdown
-						.setValue(this.plugin.settings.claudeModel)
-						.onChange(async (value) => {
-							this.plugin.settings.claudeModel = value;
-							await this.plugin.saveSettings();
-						});
-				});
+			this.displayModelSetting(
+				containerEl,
+				LLMProvider.CLAUDE,
+				"Claude Model",
+				"Select which Claude model to use."
+			);
 		}
 
 		// OpenAI Settings - Only show if OpenAI is selected
@@ -97,24 +181,113 @@ export class AIExcerptSettingTab extends PluginSettingTab {
 						})
 				);
 
+			this.displayModelSetting(
+				containerEl,
+				LLMProvider.OPENAI,
+				"OpenAI Model",
+				"Select which OpenAI model to use."
+			);
+		}
+
+		// Ollama Settings - Only show if Ollama is selected
+		if (this.plugin.settings.provider === LLMProvider.OLLAMA) {
 			new Setting(containerEl)
-				.setName("OpenAI Model")
+				.setName("Ollama Host")
 				.setDesc(
-					"Select which OpenAI model to use. GPT-4o offers excellent quality and speed. The 'o' series models are specialized for reasoning tasks. GPT-4.5 offers the highest quality but may be slower."
+					"URL of your Ollama server. Notes are only sent to this server and never leave it."
 				)
-				.addDropdown((dropdown) => {
-					OPENAI_MODELS.forEach((model) => {
-						dropdown.addOption(model, model);
-					});
-					dropdown
-						.setValue(this.plugin.settings.openaiModel)
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.ollamaHost)
+						.setValue(this.plugin.settings.ollamaHost)
 						.onChange(async (value) => {
-							this.plugin.settings.openaiModel = value;
+							this.plugin.settings.ollamaHost = value;
 							await this.plugin.saveSettings();
-						});
-				});
+						})
+				);
+
+			this.displayModelSetting(
+				containerEl,
+				LLMProvider.OLLAMA,
+				"Ollama Model",
+				"Select which locally installed model to use."
+			);
 		}
 
+		// OpenAI-compatible Settings - Only show if that provider is selected
+		if (this.plugin.settings.provider === LLMProvider.OPENAI_COMPATIBLE) {
+			new Setting(containerEl)
+				.setName("Base URL")
+				.setDesc(
+					"Base URL of the chat-completions API, e.g. http://localhost:1234/v1 for LM Studio or http://localhost:8080/v1 for llama.cpp server."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("http://localhost:1234/v1")
+						.setValue(this.plugin.settings.compatibleBaseUrl)
+						.onChange(async (value) => {
+							this.plugin.settings.compatibleBaseUrl = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("API Key")
+				.setDesc(
+					"API key sent as a bearer token. Leave empty if the server doesn't require one."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Enter your API key")
+						.setValue(this.plugin.settings.compatibleApiKey)
+						.onChange(async (value) => {
+							this.plugin.settings.compatibleApiKey = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			this.displayModelSetting(
+				containerEl,
+				LLMProvider.OPENAI_COMPATIBLE,
+				"Model",
+				"Model name exactly as the server expects it."
+			);
+
+			new Setting(containerEl)
+				.setName("Extra Headers")
+				.setDesc(
+					"Optional headers sent with every request, one per line as 'Name: value'."
+				)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("X-Gateway-Team: notes")
+						.setValue(this.plugin.settings.compatibleHeaders)
+						.onChange(async (value) => {
+							this.plugin.settings.compatibleHeaders = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Strict JSON schema")
+				.setDesc(
+					"Ask the server to follow the response schema through response_format. Turn off for servers that reject or ignore it; the schema is then described in the prompt. Servers that reject it are also detected on the first request."
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.compatibleStrictSchema)
+						.onChange(async (value) => {
+							this.plugin.settings.compatibleStrictSchema = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		this.displayProviderChain(containerEl);
+		this.displayProviderStatus(containerEl);
+
+		this.displayPromptTemplate(containerEl);
+
 		// Tag Prefix Setting
 		new Setting(containerEl)
 			.setName("Tag Prefix")
@@ -130,5 +303,1119 @@ export class AIExcerptSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Tag merge mode")
+			.setDesc(
+				"How generated tags are combined with a note's existing tags. Tags listed in a note's locked-tags property are never removed."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption(TagMergeMode.REPLACE, "Replace existing tags")
+					.addOption(TagMergeMode.APPEND, "Append, never remove")
+					.addOption(TagMergeMode.MERGE, "Merge up to a limit")
+					.setValue(this.plugin.settings.tagMergeMode)
+					.onChange(async (value) => {
+						this.plugin.settings.tagMergeMode =
+							value as TagMergeMode;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.tagMergeMode === TagMergeMode.MERGE) {
+			new Setting(containerEl)
+				.setName("Tag limit")
+				.setDesc(
+					"Generated tags are added until a note has this many tags. Existing tags are kept even above the limit."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS.tagMergeCap))
+						.setValue(String(this.plugin.settings.tagMergeCap))
+						.onChange(async (value) => {
+							const cap = parseInt(value, 10);
+							this.plugin.settings.tagMergeCap =
+								isNaN(cap) || cap < 1
+									? DEFAULT_SETTINGS.tagMergeCap
+									: cap;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Bulk runs tag")
+			.setDesc(
+				"Which notes directory and vault runs send to the provider. Can also be changed before each run."
+			)
+			.addDropdown((dropdown) =>
+				RunConfirmationModal.addIncrementalOptions(dropdown)
+					.setValue(this.plugin.settings.incrementalMode)
+					.onChange(async (value) => {
+						this.plugin.settings.incrementalMode =
+							value as IncrementalMode;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Review tags before writing")
+			.setDesc(
+				"When tagging a single note, show the proposed changes for review first. Bulk runs always write directly."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.reviewTags)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewTags = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.displayExclusions(containerEl);
+		this.displayAutoTag(containerEl);
+		this.displayExcerpts(containerEl);
+		this.displayMetadataFields(containerEl);
+		this.displayLongNotes(containerEl);
+		this.displayUsage(containerEl);
+		this.displayRateLimits(containerEl);
+		this.displayDeveloper(containerEl);
+	}
+
+	/**
+	 * Render developer options for testing without network access
+	 */
+	private displayDeveloper(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Developer" });
+
+		const activeMode = ProviderFactory.getReplayMode(this.plugin.settings);
+		new Setting(containerEl)
+			.setName("Record / replay")
+			.setDesc(
+				`Record saves every provider response to ${ReplayFixtures.getFolder()}, keyed by a hash of the prompt. Replay answers from those files instead of the network, without API keys.` +
+					(activeMode !== this.plugin.settings.replayMode
+						? ` Currently overridden to '${activeMode}' by the ai-tag-generator-replay localStorage flag.`
+						: "")
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption(ReplayMode.OFF, "Off")
+					.addOption(ReplayMode.RECORD, "Record")
+					.addOption(ReplayMode.REPLAY, "Replay")
+					.setValue(this.plugin.settings.replayMode)
+					.onChange(async (value: string) => {
+						this.plugin.settings.replayMode = value as ReplayMode;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	/**
+	 * Render the custom prompt template setting
+	 */
+	private displayPromptTemplate(containerEl: HTMLElement): void {
+		const path = this.plugin.settings.tagPromptPath;
+		const notePath = normalizePath(
+			path.endsWith(".md") ? path : `${path}.md`
+		);
+		const exists =
+			!!path &&
+			this.app.vault.getAbstractFileByPath(notePath) instanceof TFile;
+
+		new Setting(containerEl)
+			.setName("Prompt template note")
+			.setDesc(
+				createFragment((fragment) => {
+					fragment.appendText(
+						"A note in your vault used as the tag prompt. Its body is the message sent with each note and an optional 'system' frontmatter key sets the system prompt. Variables: {{ original_text }}, {{ note_title }}, {{ note_path }}, {{ existing_tags }}, {{ tag_count }}, {{ max_tags }}. Leave empty to use the built-in prompt."
+					);
+					if (path && !exists) {
+						fragment.createEl("br");
+						fragment.createSpan({
+							text: `${notePath} doesn't exist, so the built-in prompt is used.`,
+							cls: "mod-warning",
+						});
+					}
+				})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Prompts/AI tag prompt.md")
+					.setValue(path)
+					.onChange(async (value) => {
+						this.plugin.settings.tagPromptPath = value.trim();
+						await this.plugin.saveSettings();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(exists ? "Open" : "Create")
+					.setTooltip(
+						exists
+							? "Open the template note"
+							: "Create the note from the built-in prompt"
+					)
+					.onClick(async () => {
+						const target = path ? notePath : "AI tag prompt.md";
+						let file = this.app.vault.getAbstractFileByPath(target);
+						if (!(file instanceof TFile)) {
+							file = await this.app.vault.create(
+								target,
+								Prompts.tagGeneration
+							);
+							this.plugin.settings.tagPromptPath = target;
+							await this.plugin.saveSettings();
+						}
+						if (file instanceof TFile) {
+							await this.app.workspace.getLeaf(true).openFile(file);
+						}
+						this.display();
+					})
+			);
+	}
+
+	/**
+	 * Render the rules that keep notes out of every run
+	 */
+	private displayExclusions(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Exclusions" });
+
+		new Setting(containerEl)
+			.setName("Include paths")
+			.setDesc(
+				"Only process notes matching one of these patterns, one per line. * matches within a name, ** across folders, and a folder matches everything inside it. Leave empty for the whole vault. Like all exclusions, this applies to single notes, folder and vault runs and auto-tagging."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Notes/**\nProjects")
+					.setValue(this.plugin.settings.includePatterns.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.includePatterns =
+							this.parseList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Exclude paths")
+			.setDesc(
+				"Never process notes matching one of these patterns, one per line."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Templates\nArchive/**\nDaily/*.md")
+					.setValue(this.plugin.settings.excludePatterns.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.excludePatterns =
+							this.parseList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Skip tags")
+			.setDesc(
+				`Never process notes with one of these tags, including nested tags below them. One per line, without #. Notes with \`${TagUtils.OPT_OUT_KEY}: false\` in their frontmatter are always skipped.`
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("template\nno-ai")
+					.setValue(this.plugin.settings.skipTags.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.skipTags = this.parseList(
+							value
+						).map((tag) => tag.replace(/^#/, ""));
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Minimum words")
+			.setDesc(
+				"Never process notes with fewer words than this, not counting frontmatter. 0 means no minimum."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.minWords))
+					.setValue(String(this.plugin.settings.minWords))
+					.onChange(async (value) => {
+						const words = parseInt(value, 10);
+						this.plugin.settings.minWords =
+							isNaN(words) || words < 0
+								? DEFAULT_SETTINGS.minWords
+								: words;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	/**
+	 * Render the auto-tagging settings
+	 */
+	private displayAutoTag(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Auto-tagging" });
+
+		new Setting(containerEl)
+			.setName("Tag notes automatically")
+			.setDesc(
+				"Tag new and edited notes once they haven't changed for the quiet period. Notes whose text is unchanged since they were last tagged are never sent again."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoTag)
+					.onChange(async (value) => {
+						this.plugin.settings.autoTag = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Folders")
+			.setDesc(
+				"Only auto-tag notes in these folders and their subfolders, one per line. Leave empty for the whole vault."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Journal\nProjects/Active")
+					.setValue(this.plugin.settings.autoTagFolders.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.autoTagFolders = value
+							.split("\n")
+							.map((folder) =>
+								normalizePath(folder.trim()).replace(/\/$/, "")
+							)
+							.filter((folder) => folder && folder !== "/");
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Minimum words")
+			.setDesc("Notes shorter than this aren't auto-tagged.")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.autoTagMinWords))
+					.setValue(String(this.plugin.settings.autoTagMinWords))
+					.onChange(async (value) => {
+						const words = parseInt(value, 10);
+						this.plugin.settings.autoTagMinWords =
+							isNaN(words) || words < 0
+								? DEFAULT_SETTINGS.autoTagMinWords
+								: words;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Quiet period (minutes)")
+			.setDesc(
+				"How long a note must go unedited before it is tagged. Every edit restarts the wait."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.autoTagQuietMinutes))
+					.setValue(String(this.plugin.settings.autoTagQuietMinutes))
+					.onChange(async (value) => {
+						const minutes = parseFloat(value);
+						this.plugin.settings.autoTagQuietMinutes =
+							isNaN(minutes) || minutes < 0
+								? DEFAULT_SETTINGS.autoTagQuietMinutes
+								: minutes;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	private displayExcerpts(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Excerpts" });
+
+		new Setting(containerEl)
+			.setName("Frontmatter key")
+			.setDesc("Frontmatter field generated excerpts are written to")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.excerptKey)
+					.setValue(this.plugin.settings.excerptKey)
+					.onChange(async (value) => {
+						this.plugin.settings.excerptKey =
+							value.trim() || DEFAULT_SETTINGS.excerptKey;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Maximum length")
+			.setDesc(
+				"Longest excerpt allowed, in characters. Longer replies are sent back to the model to shorten."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.excerptMaxLength))
+					.setValue(String(this.plugin.settings.excerptMaxLength))
+					.onChange(async (value) => {
+						const length = parseInt(value, 10);
+						this.plugin.settings.excerptMaxLength =
+							isNaN(length) || length < 20
+								? DEFAULT_SETTINGS.excerptMaxLength
+								: length;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Overwrite existing excerpts")
+			.setDesc(
+				"When off, notes that already have an excerpt are skipped so hand-written ones are kept."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.excerptOverwrite)
+					.onChange(async (value) => {
+						this.plugin.settings.excerptOverwrite = value;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	/**
+	 * Render the metadata schema, one block of settings per field
+	 */
+	private displayMetadataFields(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Metadata Fields" });
+
+		const fields = this.plugin.settings.metadataFields;
+
+		new Setting(containerEl)
+			.setName("Fields")
+			.setDesc(
+				fields.length > 0
+					? "Frontmatter properties filled by the metadata commands, all in one request per note."
+					: "No fields configured. Add properties such as people, projects or type to fill them with the metadata commands."
+			)
+			.addButton((button) =>
+				button.setButtonText("Add field").onClick(async () => {
+					await this.saveMetadataFields([
+						...fields,
+						{
+							key: "",
+							description: "",
+							cardinality: FieldCardinality.MULTIPLE,
+							allowedValues: [],
+						},
+					]);
+				})
+			);
+
+		const counts = new Map<string, number>();
+		for (const field of fields) {
+			const key = field.key.trim();
+			counts.set(key, (counts.get(key) || 0) + 1);
+		}
+
+		fields.forEach((field, index) => {
+			const key = field.key.trim();
+			let status = "";
+			if (!key) {
+				status = "Set a key, fields without one are ignored.";
+			} else if ((counts.get(key) || 0) > 1) {
+				status = `"${key}" is used by more than one field, only the first is filled.`;
+			}
+
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${key || "New field"}`)
+				.setDesc(status)
+				.addText((text) =>
+					text
+						.setPlaceholder("Key, e.g. people")
+						.setValue(field.key)
+						.onChange(async (value) => {
+							// Update in place so the text field keeps focus while typing
+							field.key = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption(FieldCardinality.SINGLE, "Single value")
+						.addOption(FieldCardinality.MULTIPLE, "List")
+						.setValue(field.cardinality)
+						.onChange(async (value) => {
+							field.cardinality = value as FieldCardinality;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove field")
+						.onClick(async () => {
+							await this.saveMetadataFields(
+								fields.filter((item) => item !== field)
+							);
+						})
+				);
+
+			new Setting(containerEl)
+				.setDesc("What belongs in the field, as told to the model")
+				.addText((text) => {
+					text.setPlaceholder("People mentioned or involved")
+						.setValue(field.description)
+						.onChange(async (value) => {
+							field.description = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.style.width = "100%";
+				});
+
+			new Setting(containerEl)
+				.setDesc(
+					"Allowed values, comma-separated. Leave empty for free text."
+				)
+				.addText((text) => {
+					text.setPlaceholder("meeting, article, idea")
+						.setValue(field.allowedValues.join(", "))
+						.onChange(async (value) => {
+							field.allowedValues = Array.from(
+								new Set(
+									value
+										.split(",")
+										.map((item) => item.trim())
+										.filter((item) => item.length > 0)
+								)
+							);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.style.width = "100%";
+				});
+		});
+	}
+
+	/**
+	 * Save the metadata fields and redraw the list
+	 */
+	private async saveMetadataFields(fields: MetadataField[]): Promise<void> {
+		this.plugin.settings.metadataFields = fields;
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	/**
+	 * Render the settings for tagging long notes in chunks
+	 */
+	private displayLongNotes(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Long Notes" });
+
+		new Setting(containerEl)
+			.setName("Chunked tagging")
+			.setDesc(
+				"Notes over the threshold are split at headings into chunks that are tagged one by one. The chunk tags are then merged by how many chunks suggested them, or by one more request that picks from them."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption(ChunkMergeMode.OFF, "Off (send the whole note)")
+					.addOption(ChunkMergeMode.FREQUENCY, "Merge by frequency")
+					.addOption(ChunkMergeMode.FINAL_PASS, "Final merge pass")
+					.setValue(this.plugin.settings.chunkMergeMode)
+					.onChange(async (value: string) => {
+						this.plugin.settings.chunkMergeMode =
+							value as ChunkMergeMode;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.chunkMergeMode === ChunkMergeMode.OFF) {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName("Chunking threshold (tokens)")
+			.setDesc(
+				"Notes estimated at more tokens than this are tagged in chunks. Roughly four characters make a token."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.chunkThreshold))
+					.setValue(String(this.plugin.settings.chunkThreshold))
+					.onChange(async (value) => {
+						const threshold = parseInt(value, 10);
+						this.plugin.settings.chunkThreshold =
+							isNaN(threshold) || threshold <= 0
+								? DEFAULT_SETTINGS.chunkThreshold
+								: threshold;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Chunk size (tokens)")
+			.setDesc(
+				"Largest chunk sent in one request. Sections are kept together when they fit."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.chunkSize))
+					.setValue(String(this.plugin.settings.chunkSize))
+					.onChange(async (value) => {
+						const size = parseInt(value, 10);
+						this.plugin.settings.chunkSize =
+							isNaN(size) || size < 200
+								? DEFAULT_SETTINGS.chunkSize
+								: size;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	/**
+	 * Render the model picker for a provider
+	 *
+	 * Options come from the provider's models endpoint via ModelCatalog,
+	 * falling back to the built-in lists. A custom id can always be entered,
+	 * and a saved model the provider no longer offers is flagged.
+	 */
+	private displayModelSetting(
+		containerEl: HTMLElement,
+		provider: LLMProvider,
+		name: string,
+		description: string
+	): void {
+		const settings = this.plugin.settings;
+		const key = MODEL_SETTING_KEYS[provider];
+		const current = settings[key];
+		const models = ModelCatalog.getModels(provider, settings);
+		const isCustom =
+			this.customModel.has(provider) ||
+			(!!current && !models.includes(current));
+
+		// Refresh lists that are missing or old, once per settings session
+		if (
+			ModelCatalog.isStale(provider, settings) &&
+			ModelCatalog.canFetch(provider, settings) &&
+			!this.refreshing.has(provider) &&
+			!this.refreshErrors.has(provider)
+		) {
+			this.refreshModels(provider);
+		}
+
+		const desc = createFragment((fragment) => {
+			fragment.appendText(`${description} `);
+			fragment.appendText(this.describeModelSource(provider, models));
+			if (ModelCatalog.isMissing(provider, current, settings)) {
+				fragment.createEl("br");
+				fragment.createSpan({
+					text: `${current} is not offered by ${PROVIDER_LABELS[provider]} anymore. Pick another model or runs with this provider will fail.`,
+					cls: "mod-warning",
+				});
+			}
+		});
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addDropdown((dropdown) => {
+				models.forEach((model) => {
+					dropdown.addOption(model, model);
+				});
+				dropdown.addOption(CUSTOM_MODEL_OPTION, "Custom model ID…");
+				dropdown
+					.setValue(isCustom ? CUSTOM_MODEL_OPTION : current)
+					.onChange(async (value) => {
+						if (value === CUSTOM_MODEL_OPTION) {
+							this.customModel.add(provider);
+						} else {
+							this.customModel.delete(provider);
+							settings[key] = value;
+							await this.plugin.saveSettings();
+						}
+						this.display();
+					});
+			})
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh model list")
+					.setDisabled(!ModelCatalog.canFetch(provider, settings))
+					.onClick(() => this.refreshModels(provider))
+			);
+
+		if (isCustom) {
+			new Setting(containerEl)
+				.setName("Custom model ID")
+				.setDesc("Model id exactly as the provider expects it")
+				.addText((text) =>
+					text
+						.setPlaceholder("e.g. my-fine-tuned-model")
+						.setValue(current)
+						.onChange(async (value) => {
+							settings[key] = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+	}
+
+	/**
+	 * Explain where the model options came from
+	 */
+	private describeModelSource(
+		provider: LLMProvider,
+		models: string[]
+	): string {
+		const label = PROVIDER_LABELS[provider];
+		if (this.refreshing.has(provider)) {
+			return `Fetching models from ${label}…`;
+		}
+
+		const error = this.refreshErrors.get(provider);
+		const fetchedAt = ModelCatalog.getFetchedAt(
+			provider,
+			this.plugin.settings
+		);
+		if (error) {
+			return `Could not fetch models from ${label} (${error}). ${
+				fetchedAt !== null
+					? "Showing the last fetched list."
+					: "Showing the built-in list."
+			}`;
+		}
+		if (fetchedAt === null) {
+			return models.length > 0
+				? "Showing the built-in list until models can be fetched."
+				: "Refresh to load the available models.";
+		}
+		if (models.length === 0) {
+			return provider === LLMProvider.OLLAMA
+				? "No models installed. Run `ollama pull <model>` and refresh."
+				: `${label} reported no models.`;
+		}
+		return `Models from ${label}, updated ${new Date(
+			fetchedAt
+		).toLocaleString()}.`;
+	}
+
+	/**
+	 * Fetch a provider's model list and redraw the settings
+	 */
+	private async refreshModels(provider: LLMProvider): Promise<void> {
+		const settings = this.plugin.settings;
+		this.refreshing.add(provider);
+		this.refreshErrors.delete(provider);
+		this.display();
+
+		try {
+			const models = await ModelCatalog.refresh(provider, settings);
+
+			// Pick a model for providers that have no default
+			const key = MODEL_SETTING_KEYS[provider];
+			if (!settings[key] && models.length > 0) {
+				settings[key] = models[0];
+				await this.plugin.saveSettings();
+			}
+		} catch (error) {
+			console.error(
+				`Error listing ${PROVIDER_LABELS[provider]} models:`,
+				error
+			);
+			this.refreshErrors.set(
+				provider,
+				error instanceof Error ? error.message : String(error)
+			);
+		} finally {
+			this.refreshing.delete(provider);
+			this.display();
+		}
+	}
+
+	/**
+	 * Render the reorderable provider chain editor
+	 *
+	 * Each entry is a provider plus an optional model override. Entries are
+	 * tried from top to bottom until one returns tags.
+	 */
+	private displayProviderChain(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Provider Chain" });
+
+		const chain = this.plugin.settings.providerChain;
+		const defaultChain = ProviderFactory.getProviderChain({
+			...this.plugin.settings,
+			providerChain: [],
+		});
+
+		new Setting(containerEl)
+			.setName("Fallback order")
+			.setDesc(
+				chain.length > 0
+					? "Providers are tried from top to bottom until one succeeds. Credentials come from each provider's settings."
+					: `No chain configured. Currently trying: ${defaultChain
+							.map((entry) =>
+								ProviderFactory.describeEntry(
+									entry,
+									this.plugin.settings
+								)
+							)
+							.join(" → ")}`
+			)
+			.addButton((button) =>
+				button.setButtonText("Add entry").onClick(async () => {
+					const entry: ProviderChainEntry = {
+						id: `${Date.now().toString(36)}-${Math.random()
+							.toString(36)
+							.slice(2, 6)}`,
+						provider: this.plugin.settings.provider,
+						model: "",
+					};
+					await this.saveProviderChain([...chain, entry]);
+				})
+			);
+
+		chain.forEach((entry, index) => {
+			const model = ProviderFactory.getEntryModel(
+				entry,
+				this.plugin.settings
+			);
+			let entryDesc = "";
+			if (
+				!ProviderFactory.isConfigured(
+					entry.provider,
+					this.plugin.settings
+				)
+			) {
+				entryDesc = "This provider is not configured and will be skipped.";
+			} else if (
+				ModelCatalog.isMissing(
+					entry.provider,
+					model,
+					this.plugin.settings
+				)
+			) {
+				entryDesc = `${model} is not offered by ${
+					PROVIDER_LABELS[entry.provider]
+				} anymore and will fail.`;
+			}
+
+			new Setting(containerEl)
+				.setName(
+					`${index + 1}. ${ProviderFactory.describeEntry(
+						entry,
+						this.plugin.settings
+					)}`
+				)
+				.setDesc(entryDesc)
+				.addDropdown((dropdown) => {
+					Object.values(LLMProvider).forEach((provider) => {
+						dropdown.addOption(provider, PROVIDER_LABELS[provider]);
+					});
+					dropdown.setValue(entry.provider).onChange(async (value) => {
+						await this.saveProviderChain(
+							chain.map((item) =>
+								item.id === entry.id
+									? {
+											...item,
+											provider: value as LLMProvider,
+											model: "",
+									  }
+									: item
+							)
+						);
+					});
+				})
+				.addText((text) =>
+					text
+						.setPlaceholder(
+							ProviderFactory.getModel(
+								entry.provider,
+								this.plugin.settings
+							) || "Model"
+						)
+						.setValue(entry.model)
+						.onChange(async (value) => {
+							// Update in place so the text field keeps focus while typing
+							entry.model = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							const reordered = [...chain];
+							reordered[index - 1] = chain[index];
+							reordered[index] = chain[index - 1];
+							await this.saveProviderChain(reordered);
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === chain.length - 1)
+						.onClick(async () => {
+							if (index === chain.length - 1) return;
+							const reordered = [...chain];
+							reordered[index + 1] = chain[index];
+							reordered[index] = chain[index + 1];
+							await this.saveProviderChain(reordered);
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove")
+						.onClick(async () => {
+							await this.saveProviderChain(
+								chain.filter((item) => item.id !== entry.id)
+							);
+						})
+				);
+		});
+	}
+
+	/**
+	 * Render the circuit state of each provider and model used this session
+	 */
+	private displayProviderStatus(containerEl: HTMLElement): void {
+		const states = ProviderFactory.getCircuitStates();
+		if (states.size === 0) return;
+
+		containerEl.createEl("h3", { text: "Provider Status" });
+
+		for (const [id, { label, snapshot }] of states) {
+			let description: string;
+			switch (snapshot.state) {
+				case CircuitState.OPEN: {
+					const seconds = Math.max(
+						0,
+						Math.ceil(((snapshot.retryAt || 0) - Date.now()) / 1000)
+					);
+					description =
+						seconds > 0
+							? `Paused after ${snapshot.consecutiveFailures} failures. Next attempt in ${seconds}s.`
+							: `Paused after ${snapshot.consecutiveFailures} failures. The next request will probe it.`;
+					break;
+				}
+				case CircuitState.HALF_OPEN:
+					description =
+						"Probing: one test request is deciding whether it has recovered.";
+					break;
+				default:
+					description =
+						snapshot.consecutiveFailures > 0
+							? `Available (${snapshot.consecutiveFailures} recent failures)`
+							: "Available";
+			}
+
+			const setting = new Setting(containerEl)
+				.setName(label)
+				.setDesc(description);
+
+			if (snapshot.state !== CircuitState.CLOSED) {
+				setting.addButton((button) =>
+					button.setButtonText("Retry now").onClick(() => {
+						ProviderFactory.resetCircuit(id);
+						this.display();
+					})
+				);
+			}
+		}
+	}
+
+	/**
+	 * Render bulk run concurrency, the request timeout and the rate limits
+	 * of each provider
+	 */
+	private displayRateLimits(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Rate Limits" });
+
+		new Setting(containerEl)
+			.setName("Concurrent requests")
+			.setDesc(
+				"How many notes a directory or vault run works on at the same time. The limits below still pace the requests."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setValue(this.plugin.settings.concurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.concurrency = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Request timeout (seconds)")
+			.setDesc(
+				"Give up on a request that takes longer than this and retry it. 0 means no limit."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.requestTimeout))
+					.setValue(String(this.plugin.settings.requestTimeout))
+					.onChange(async (value) => {
+						this.plugin.settings.requestTimeout =
+							this.parseLimit(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		for (const provider of Object.values(LLMProvider)) {
+			const limit = this.plugin.settings.rateLimits[provider];
+			new Setting(containerEl)
+				.setName(PROVIDER_LABELS[provider])
+				.setDesc(
+					"Requests and tokens per minute, shared by all requests to the provider. 0 means no limit. Requests slow down on their own when the provider reports a rate limit."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("requests/min")
+						.setValue(String(limit.requestsPerMinute))
+						.onChange(async (value) => {
+							limit.requestsPerMinute = this.parseLimit(value);
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("tokens/min")
+						.setValue(String(limit.tokensPerMinute))
+						.onChange(async (value) => {
+							limit.tokensPerMinute = this.parseLimit(value);
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+	}
+
+	/**
+	 * Split a textarea into its non-empty lines
+	 */
+	private parseList(value: string): string[] {
+		return value
+			.split("\n")
+			.map((line) => line.trim())
+			.filter((line) => line.length > 0);
+	}
+
+	/**
+	 * Read a limit typed in settings, 0 for anything invalid
+	 */
+	private parseLimit(value: string): number {
+		const limit = parseInt(value, 10);
+		return isNaN(limit) || limit < 0 ? 0 : limit;
+	}
+
+	/**
+	 * Render recorded token usage, run budgets and price overrides
+	 */
+	private displayUsage(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Usage & Budget" });
+
+		const usage = UsageLedger.getModelUsage();
+		const since = new Date(UsageLedger.getSince()).toLocaleDateString();
+
+		new Setting(containerEl)
+			.setName("Recorded usage")
+			.setDesc(
+				usage.length > 0
+					? `Totals since ${since}, estimated from each model's price.`
+					: `No requests recorded since ${since}.`
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Reset")
+					.setWarning()
+					.onClick(() => {
+						UsageLedger.reset();
+						this.display();
+					})
+			);
+
+		usage
+			.sort((a, b) => b.cost - a.cost)
+			.forEach((entry) => {
+				new Setting(containerEl)
+					.setName(`${PROVIDER_LABELS[entry.provider]} · ${entry.model}`)
+					.setDesc(
+						`${entry.requests.toLocaleString()} requests, ${UsageLedger.formatTotals(
+							entry
+						)}`
+					);
+			});
+
+		new Setting(containerEl)
+			.setName("Token budget per run")
+			.setDesc(
+				"Stop a directory or vault run once it has used this many tokens (input + output). 0 means no limit."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.runTokenBudget || ""))
+					.onChange(async (value) => {
+						const budget = parseInt(value, 10);
+						this.plugin.settings.runTokenBudget =
+							isNaN(budget) || budget < 0 ? 0 : budget;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Spend budget per run (USD)")
+			.setDesc(
+				"Stop a directory or vault run once its estimated cost reaches this amount. 0 means no limit."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.runCostBudget || ""))
+					.onChange(async (value) => {
+						const budget = parseFloat(value);
+						this.plugin.settings.runCostBudget =
+							isNaN(budget) || budget < 0 ? 0 : budget;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const currentModel = ProviderFactory.getModel(
+			this.plugin.settings.provider,
+			this.plugin.settings
+		);
+		const currentPrice = Pricing.getPrice(currentModel);
+
+		new Setting(containerEl)
+			.setName("Price overrides")
+			.setDesc(
+				`Prices in USD per million tokens, one 'model: input, output' line per model. Models without a price count as free. ${
+					currentPrice
+						? `${currentModel} is priced at $${currentPrice.input} in / $${currentPrice.output} out.`
+						: currentModel
+						? `${currentModel} has no known price.`
+						: ""
+				}`
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("my-gateway-model: 0.5, 1.5")
+					.setValue(this.plugin.settings.priceOverrides)
+					.onChange(async (value) => {
+						this.plugin.settings.priceOverrides = value;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	/**
+	 * Save a new provider chain and redraw the settings
+	 */
+	private async saveProviderChain(chain: ProviderChainEntry[]): Promise<void> {
+		this.plugin.settings.providerChain = chain;
+		await this.plugin.saveSettings();
+		this.display();
 	}
 }
@@ -1,14 +1,74 @@
 import { TFile, TFolder } from "obsidian";
+import { UsageTotals } from "./services/usage-ledger";
+import { ValidationResult } from "./utils/tag-schema";
 
 // Define available LLM providers
 export enum LLMProvider {
 	CLAUDE = "claude",
 	OPENAI = "openai",
+	OLLAMA = "ollama",
+	OPENAI_COMPATIBLE = "openai-compatible",
 }
 
+// Display names for each provider
+export const PROVIDER_LABELS: Record<LLMProvider, string> = {
+	[LLMProvider.CLAUDE]: "Claude (Anthropic)",
+	[LLMProvider.OPENAI]: "OpenAI",
+	[LLMProvider.OLLAMA]: "Ollama (local)",
+	[LLMProvider.OPENAI_COMPATIBLE]: "OpenAI-compatible endpoint",
+};
+
 // Define available prompt types
 export enum PromptType {
 	TAG_GENERATION = "tag-generation",
+	EXCERPT_GENERATION = "excerpt-generation",
+	TITLE_SUGGESTION = "title-suggestion",
+	ALIAS_SUGGESTION = "alias-suggestion",
+	DESCRIPTION_SUGGESTION = "description-suggestion",
+	METADATA_EXTRACTION = "metadata-extraction",
+}
+
+// What bulk runs of each task produce, for modal titles and notices
+export const TASK_NOUNS: Partial<Record<PromptType, string>> = {
+	[PromptType.TAG_GENERATION]: "tags",
+	[PromptType.EXCERPT_GENERATION]: "excerpts",
+	[PromptType.METADATA_EXTRACTION]: "metadata",
+};
+
+// How generated tags are combined with the tags a note already has
+export enum TagMergeMode {
+	REPLACE = "replace",
+	APPEND = "append",
+	MERGE = "merge",
+}
+
+// Which notes bulk tag runs process
+export enum IncrementalMode {
+	// Notes without any tags
+	UNTAGGED = "untagged",
+	// Notes whose content, prompt or model changed since they were tagged
+	CHANGED = "changed",
+	ALL = "all",
+}
+
+// Whether a metadata field holds one value or a list
+export enum FieldCardinality {
+	SINGLE = "single",
+	MULTIPLE = "multiple",
+}
+
+// How per-chunk tags of a long note are combined
+export enum ChunkMergeMode {
+	OFF = "off",
+	FREQUENCY = "frequency",
+	FINAL_PASS = "final-pass",
+}
+
+// Whether providers are replaced by recorded fixtures, for offline testing
+export enum ReplayMode {
+	OFF = "off",
+	RECORD = "record",
+	REPLAY = "replay",
 }
 
 // Define available models for each provider
@@ -39,6 +99,30 @@ export const OPENAI_MODELS = [
 	"gpt-3.5-turbo",
 ];
 
+// A frontmatter property filled by metadata extraction
+export interface MetadataField {
+	key: string;
+	// Tells the model what belongs in the field
+	description: string;
+	cardinality: FieldCardinality;
+	// Values the field is limited to, empty for free text
+	allowedValues: string[];
+}
+
+// Requests and tokens per minute sent to a provider, 0 means no limit
+export interface RateLimit {
+	requestsPerMinute: number;
+	tokensPerMinute: number;
+}
+
+// A single provider + model step in the ordered provider chain
+export interface ProviderChainEntry {
+	id: string;
+	provider: LLMProvider;
+	// Empty means the model configured for that provider above
+	model: string;
+}
+
 export interface AIExcerptSettings {
 	provider: LLMProvider;
 	promptType: PromptType;
@@ -46,18 +130,209 @@ export interface AIExcerptSettings {
 	claudeModel: string;
 	openaiApiKey: string;
 	openaiModel: string;
+	ollamaHost: string;
+	ollamaModel: string;
+	compatibleBaseUrl: string;
+	compatibleApiKey: string;
+	compatibleModel: string;
+	compatibleHeaders: string;
+	// Send a strict JSON schema as response_format, off for servers without it
+	compatibleStrictSchema: boolean;
+	providerChain: ProviderChainEntry[];
+	// Per-run caps for bulk runs, 0 means no cap
+	runTokenBudget: number;
+	runCostBudget: number;
+	// One `model: input, output` line per model, USD per million tokens
+	priceOverrides: string;
+	// Notes longer than the threshold are tagged in chunks (token estimates)
+	chunkMergeMode: ChunkMergeMode;
+	chunkThreshold: number;
+	chunkSize: number;
+	replayMode: ReplayMode;
+	// Vault path of a custom tag prompt note, empty for the bundled one
+	tagPromptPath: string;
 	tagPrefix: string;
+	// Frontmatter key and maximum length (characters) of generated excerpts
+	excerptKey: string;
+	excerptMaxLength: number;
+	excerptOverwrite: boolean;
+	metadataFields: MetadataField[];
+	tagMergeMode: TagMergeMode;
+	// Most tags a note ends up with in merge mode
+	tagMergeCap: number;
+	// Show generated tags for review before writing single notes
+	reviewTags: boolean;
+	incrementalMode: IncrementalMode;
+	// Path globs every run is limited to, empty for the whole vault
+	includePatterns: string[];
+	// Path globs no run touches
+	excludePatterns: string[];
+	// Notes with any of these tags are never sent
+	skipTags: string[];
+	// Notes with fewer words in their body are never sent, 0 means no minimum
+	minWords: number;
+	// Tag notes on their own after they are created or edited
+	autoTag: boolean;
+	// Folders auto-tagging is limited to, empty for the whole vault
+	autoTagFolders: string[];
+	autoTagMinWords: number;
+	// Minutes a note must go unedited before it is auto-tagged
+	autoTagQuietMinutes: number;
+	// Files a bulk run sends to the provider at the same time
+	concurrency: number;
+	// Seconds a request may take before it is retried, 0 means no limit
+	requestTimeout: number;
+	rateLimits: Record<LLMProvider, RateLimit>;
+}
+
+// The note a prompt is rendered for
+export interface NoteContext {
+	title: string;
+	path: string;
+}
+
+// Cancellation, time limit and usage tracking for a provider request
+export interface RequestOptions {
+	// Aborts the request, e.g. when a bulk job is cancelled
+	signal?: AbortSignal;
+	// Longest a single attempt may take before it is retried, in ms
+	timeoutMs?: number;
+	// Totals of the bulk job the request is made for, updated in place
+	usage?: UsageTotals;
+}
+
+// A metadata suggestion (title, aliases, ...) providers can be asked for
+export interface SuggestionSpec<T> {
+	type: PromptType;
+	// Name of the tool / response format carrying the result
+	schemaName: string;
+	schemaDescription: string;
+	schema: object;
+	maxTokens: number;
+	// Used when the template doesn't set a system prompt
+	defaultSystem: string;
+	// Used when the bundled template file is missing
+	defaultTemplate: string;
+	validate(value: unknown): ValidationResult<T>;
+}
+
+// A suggestion waiting for the user to review it
+export interface MetadataSuggestion {
+	file: TFile;
+	type: PromptType;
+	current: string | string[];
+	value: string | string[];
+	// Description of the chain entry that produced the suggestion
+	via: string;
 }
 
 export interface AIExcerptProvider {
-	generateTags(content: string): Promise<string[]>;
+	generateTags(
+		content: string,
+		context?: NoteContext,
+		options?: RequestOptions
+	): Promise<string[]>;
+	generateExcerpt(
+		content: string,
+		maxLength: number,
+		context?: NoteContext,
+		options?: RequestOptions
+	): Promise<string>;
+	suggest<T>(
+		spec: SuggestionSpec<T>,
+		content: string,
+		context?: NoteContext,
+		variables?: Record<string, string>,
+		options?: RequestOptions
+	): Promise<T>;
+	mergeTags(
+		candidates: string[],
+		outline: string,
+		options?: RequestOptions
+	): Promise<string[]>;
+}
+
+// Outcome of processing a single file
+export interface ProcessFileResult {
+	file: TFile;
+	status: "updated" | "skipped" | "failed";
+	tags?: string[];
+	// Tags the run added to or removed from the note
+	addedTags?: string[];
+	removedTags?: string[];
+	// Tags before the run, null if the note had no tags property
+	previousTags?: string[] | null;
+	excerpt?: string;
+	metadata?: Record<string, string | string[]>;
+	// The chain entry that actually produced the tags or excerpt
+	entry?: ProviderChainEntry;
+	// Short reason when status is "skipped", e.g. "empty"
+	skipReason?: string;
+	error?: string;
+	// Set when the error will affect every file, so a batch should stop
+	haltBatch?: boolean;
+}
+
+// Tags of a note after generated tags were merged in
+export interface TagMergeResult {
+	tags: string[];
+	added: string[];
+	removed: string[];
+}
+
+// Generated tags waiting for the user to review them
+export interface TagProposal {
+	file: TFile;
+	// Tags the note has now
+	current: string[];
+	// Tags listed in the note's locked-tags, which can't be removed
+	locked: string[];
+	// What writing the generated tags would do in the current merge mode
+	merge: TagMergeResult;
+	entry: ProviderChainEntry;
+	via: string;
+}
+
+// Pre-run estimate shown before bulk runs
+export interface RunEstimate {
+	fileCount: number;
+	skipped: number;
+	skipReasons: Record<string, number>;
+	// Instructions and existing-tags context added to every prompt
+	promptTokensPerFile: number;
+	inputTokens: number;
+	outputTokens: number;
+	model: string;
+	// Null when the model has no known price
+	cost: number | null;
+	durationMs: number;
 }
 
 export interface AIExcerptPlugin {
 	settings: AIExcerptSettings;
 	saveSettings(): Promise<void>;
-	processFile(file: TFile, showNotices?: boolean): Promise<void>;
-	processDirectory(folder: TFolder): Promise<void>;
-	processAllFiles(): Promise<void>;
-	updateStatusBar(processed: number, total: number): void;
+	processFile(
+		file: TFile,
+		showNotices?: boolean
+	): Promise<ProcessFileResult | null>;
+	processExcerpt(
+		file: TFile,
+		showNotices?: boolean
+	): Promise<ProcessFileResult | null>;
+	suggestMetadata(file: TFile, type: PromptType): Promise<void>;
+	processMetadata(
+		file: TFile,
+		showNotices?: boolean
+	): Promise<ProcessFileResult | null>;
+	processDirectory(
+		folder: TFolder,
+		task?: PromptType,
+		dryRun?: boolean
+	): Promise<void>;
+	processAllFiles(task?: PromptType, dryRun?: boolean): Promise<void>;
+	estimateRun(
+		files: TFile[],
+		task?: PromptType
+	): Promise<RunEstimate | null>;
+	updateStatusBar(processed: number, total: number, task?: PromptType): void;
 }
@@ -0,0 +1,128 @@
+import { TokenUtils } from "./token-utils";
+
+/**
+ * Utility class for splitting long notes into chunks that fit a token budget
+ */
+export class ChunkUtils {
+	private static readonly HEADING_REGEX = /^#{1,6}\s+\S/;
+
+	/**
+	 * Split content into chunks of at most `maxTokens` estimated tokens
+	 *
+	 * The content is first cut into sections at headings, and consecutive
+	 * sections are packed together while they fit. Sections that are too
+	 * long on their own are split at blank lines, then at line breaks, and
+	 * as a last resort at the budget itself.
+	 *
+	 * @param content - The note content without frontmatter
+	 * @param maxTokens - The token budget per chunk
+	 * @returns The chunks, in note order
+	 */
+	static split(content: string, maxTokens: number): string[] {
+		const pieces = this.splitSections(content).flatMap((section) =>
+			this.splitToFit(section, maxTokens)
+		);
+
+		const chunks: string[] = [];
+		let current = "";
+		for (const piece of pieces) {
+			const combined = current ? `${current}\n${piece}` : piece;
+			if (current && TokenUtils.estimate(combined) > maxTokens) {
+				chunks.push(current);
+				current = piece;
+			} else {
+				current = combined;
+			}
+		}
+		if (current.trim()) {
+			chunks.push(current);
+		}
+
+		return chunks;
+	}
+
+	/**
+	 * List the headings of a note, used as context when merging chunk tags
+	 *
+	 * @param content - The note content
+	 * @returns The heading lines, without their leading #
+	 */
+	static getHeadings(content: string): string[] {
+		return content
+			.split("\n")
+			.filter((line) => this.HEADING_REGEX.test(line))
+			.map((line) => line.replace(/^#+\s+/, "").trim());
+	}
+
+	/**
+	 * Cut content into sections that each start at a heading
+	 */
+	private static splitSections(content: string): string[] {
+		const sections: string[] = [];
+		let current: string[] = [];
+
+		for (const line of content.split("\n")) {
+			if (this.HEADING_REGEX.test(line) && current.length > 0) {
+				sections.push(current.join("\n"));
+				current = [];
+			}
+			current.push(line);
+		}
+		if (current.length > 0) {
+			sections.push(current.join("\n"));
+		}
+
+		return sections.filter((section) => section.trim().length > 0);
+	}
+
+	/**
+	 * Split a section further until every piece fits the budget
+	 */
+	private static splitToFit(text: string, maxTokens: number): string[] {
+		if (TokenUtils.estimate(text) <= maxTokens) {
+			return [text];
+		}
+
+		for (const separator of ["\n\n", "\n"]) {
+			const parts = text.split(separator);
+			if (parts.length > 1) {
+				return this.pack(parts, separator, maxTokens).flatMap((part) =>
+					this.splitToFit(part, maxTokens)
+				);
+			}
+		}
+
+		// A single line longer than the budget
+		const maxChars = maxTokens * TokenUtils.charsPerToken;
+		const pieces: string[] = [];
+		for (let start = 0; start < text.length; start += maxChars) {
+			pieces.push(text.slice(start, start + maxChars));
+		}
+		return pieces;
+	}
+
+	/**
+	 * Join consecutive parts while they fit the budget
+	 */
+	private static pack(
+		parts: string[],
+		separator: string,
+		maxTokens: number
+	): string[] {
+		const packed: string[] = [];
+		let current = "";
+		for (const part of parts) {
+			const combined = current ? `${current}${separator}${part}` : part;
+			if (current && TokenUtils.estimate(combined) > maxTokens) {
+				packed.push(current);
+				current = part;
+			} else {
+				current = combined;
+			}
+		}
+		if (current) {
+			packed.push(current);
+		}
+		return packed;
+	}
+}
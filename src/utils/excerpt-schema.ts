@@ -0,0 +1,78 @@
+import { ValidationResult } from "./tag-schema";
+
+/**
+ * Shared schema for structured excerpt output
+ *
+ * The length limit comes from settings, so it is passed to `validate`
+ * rather than baked into the JSON schema.
+ */
+export class ExcerptSchema {
+	/**
+	 * Name of the tool / response format the excerpt is returned through
+	 */
+	static readonly toolName = "record_excerpt";
+
+	static readonly description =
+		"Record a short excerpt that summarizes the note.";
+
+	/**
+	 * JSON schema for the structured response
+	 */
+	static readonly jsonSchema = {
+		type: "object",
+		properties: {
+			excerpt: {
+				type: "string",
+				description:
+					"One or two plain sentences summarizing the note, without markdown",
+			},
+		},
+		required: ["excerpt"],
+		additionalProperties: false,
+	};
+
+	/**
+	 * Check a parsed provider response against the excerpt schema
+	 *
+	 * @param value - The parsed response
+	 * @param maxLength - The maximum excerpt length in characters
+	 * @returns The excerpt on one line if valid, otherwise the reasons it was rejected
+	 */
+	static validate(
+		value: unknown,
+		maxLength: number
+	): ValidationResult<string> {
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			return {
+				valid: false,
+				errors: ["Response must be an object with an `excerpt` string"],
+			};
+		}
+
+		const excerpt = (value as { excerpt?: unknown }).excerpt;
+		if (typeof excerpt !== "string") {
+			return { valid: false, errors: ["`excerpt` must be a string"] };
+		}
+
+		// Frontmatter values are kept on one line
+		const singleLine = excerpt.replace(/\s+/g, " ").trim();
+		const errors: string[] = [];
+
+		if (singleLine.length === 0) {
+			errors.push("`excerpt` is empty");
+		} else if (singleLine.length > maxLength) {
+			errors.push(
+				`\`excerpt\` is ${singleLine.length} characters, it must be at most ${maxLength}`
+			);
+		}
+		if (/^#|`|\*\*|\[\[/.test(singleLine)) {
+			errors.push("`excerpt` must be plain text without markdown");
+		}
+
+		if (errors.length > 0) {
+			return { valid: false, errors };
+		}
+
+		return { valid: true, value: singleLine, errors: [] };
+	}
+}
@@ -1,4 +1,4 @@
-import { TFile, Vault } from "obsidian";
+import { TFile, TFolder, Vault } from "obsidian";
 
 /**
  * Utility class for file and frontmatter operations
@@ -20,9 +20,14 @@ export class FileUtils {
 		/^tags:\s*\[(.*)\]|^tags:\s*$|^tags:\n(\s+-.*)*$/m;
 
 	/**
-	 * Regular expression for matching the excerpt field in frontmatter
+	 * Build a regular expression matching a single-line frontmatter field
+	 *
+	 * @param key - The frontmatter key
 	 */
-	private static readonly EXCERPT_REGEX = /^excerpt:\s*(.*)$/m;
+	private static excerptRegex(key: string): RegExp {
+		const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		return new RegExp(`^${escapedKey}:\\s*(.*)$`, "m");
+	}
 
 	/**
 	 * Extracts frontmatter from markdown content if present
@@ -56,9 +61,13 @@ export class FileUtils {
 	 * Checks if frontmatter has an excerpt field and extracts its value
 	 *
 	 * @param frontmatter - The frontmatter content (without --- delimiters)
+	 * @param key - The frontmatter key holding the excerpt
 	 * @returns Object containing excerpt information
 	 */
-	static extractExcerptFromFrontmatter(frontmatter: string): {
+	static extractExcerptFromFrontmatter(
+		frontmatter: string,
+		key: string = "excerpt"
+	): {
 		hasExcerpt: boolean;
 		excerpt?: string;
 		match?: RegExpMatchArray;
@@ -67,7 +76,7 @@ export class FileUtils {
 			return { hasExcerpt: false };
 		}
 
-		const excerptMatch = frontmatter.match(this.EXCERPT_REGEX);
+		const excerptMatch = frontmatter.match(this.excerptRegex(key));
 
 		if (!excerptMatch) {
 			return { hasExcerpt: false };
@@ -99,6 +108,81 @@ export class FileUtils {
 		return `---\n${tagsYaml}\n---\n\n${content}`;
 	}
 
+	/**
+	 * Recursively collects all markdown files in a folder and its subfolders
+	 *
+	 * @param folder - The root folder
+	 * @returns The markdown files found
+	 */
+	static collectMarkdownFiles(folder: TFolder): TFile[] {
+		let markdownFiles: TFile[] = [];
+
+		// First, collect markdown files in the current folder
+		folder.children.forEach((child) => {
+			if (child instanceof TFile && child.extension === "md") {
+				markdownFiles.push(child);
+			} else if (child instanceof TFolder) {
+				// Recursively collect files from subfolders
+				markdownFiles = markdownFiles.concat(
+					this.collectMarkdownFiles(child)
+				);
+			}
+		});
+
+		return markdownFiles;
+	}
+
+	/**
+	 * Check whether a vault path matches a glob pattern
+	 *
+	 * `*` matches within one path segment, `**` across segments and `?` a
+	 * single character. A pattern that matches a folder also matches
+	 * everything inside it, so `Templates` and `Archive/**` both work.
+	 *
+	 * @param path - The file's vault path
+	 * @param pattern - The glob pattern, relative to the vault root
+	 * @returns Whether the path matches
+	 */
+	static matchesGlob(path: string, pattern: string): boolean {
+		const glob = pattern.trim().replace(/^\/+|\/+$/g, "");
+		if (!glob) {
+			return false;
+		}
+
+		let source = "";
+		for (let i = 0; i < glob.length; i++) {
+			const char = glob[i];
+			if (char === "*" && glob[i + 1] === "*") {
+				// `**/` may also match no folders at all
+				if (glob[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i++;
+				}
+			} else if (char === "*") {
+				source += "[^/]*";
+			} else if (char === "?") {
+				source += "[^/]";
+			} else {
+				source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+			}
+		}
+		return new RegExp(`^${source}(?:/.*)?$`).test(path);
+	}
+
+	/**
+	 * Count the words in a piece of text
+	 *
+	 * @param text - The text, usually a note body without frontmatter
+	 * @returns The number of whitespace-separated words
+	 */
+	static countWords(text: string): number {
+		const trimmed = text.trim();
+		return trimmed ? trimmed.split(/\s+/).length : 0;
+	}
+
 	/**
 	 * Removes frontmatter from content
 	 *
@@ -142,7 +226,6 @@ export class FileUtils {
 			.replace(/\r/g, " ") // Replace carriage returns with spaces
 			.replace(/\t/g, " ") // Replace tabs with spaces
 			.replace(/\f/g, " ") // Replace form feeds
-			.replace(/:/g, "\\:") // Escape colons (problematic in YAML)
 			.replace(/\u0000/g, "") // Remove null bytes
 			.replace(/[\u007F-\u009F]/g, "") // Remove control characters
 			.replace(/[\u2028\u2029]/g, " "); // Replace line/paragraph separators with spaces
@@ -157,14 +240,19 @@ export class FileUtils {
 	 *
 	 * @param content - The original content (will have frontmatter added)
 	 * @param excerpt - The excerpt to add
+	 * @param key - The frontmatter key to write the excerpt to
 	 * @returns Content with frontmatter including excerpt
 	 */
-	static createContentWithExcerpt(content: string, excerpt: string): string {
+	static createContentWithExcerpt(
+		content: string,
+		excerpt: string,
+		key: string = "excerpt"
+	): string {
 		if (!content) return "";
 		if (!excerpt) return content;
 
 		const escapedExcerpt = this.escapeExcerpt(excerpt);
-		return `---\nexcerpt: ${escapedExcerpt}\n---\n\n${content}`;
+		return `---\n${key}: ${escapedExcerpt}\n---\n\n${content}`;
 	}
 
 	/**
@@ -173,29 +261,32 @@ export class FileUtils {
 	 * @param content - The full file content including frontmatter
 	 * @param frontmatter - The extracted frontmatter portion (without delimiters)
 	 * @param excerpt - The excerpt to add or update
+	 * @param key - The frontmatter key holding the excerpt
 	 * @returns Updated content with modified frontmatter
 	 */
 	static updateFrontmatterWithExcerpt(
 		content: string,
 		frontmatter: string,
-		excerpt: string
+		excerpt: string,
+		key: string = "excerpt"
 	): string {
 		if (!content || !frontmatter) return content || "";
 		if (!excerpt) return content;
 
 		const escapedExcerpt = this.escapeExcerpt(excerpt);
-		const excerptMatch = frontmatter.match(this.EXCERPT_REGEX);
+		const excerptRegex = this.excerptRegex(key);
+		const excerptMatch = frontmatter.match(excerptRegex);
 
 		let newFrontmatter: string;
 		if (excerptMatch) {
 			// Replace existing excerpt
 			newFrontmatter = frontmatter.replace(
-				this.EXCERPT_REGEX,
-				`excerpt: ${escapedExcerpt}`
+				excerptRegex,
+				`${key}: ${escapedExcerpt}`
 			);
 		} else {
 			// Add excerpt to existing frontmatter
-			newFrontmatter = frontmatter + `\nexcerpt: ${escapedExcerpt}`;
+			newFrontmatter = frontmatter + `\n${key}: ${escapedExcerpt}`;
 		}
 
 		// Replace old frontmatter with new one
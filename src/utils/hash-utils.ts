@@ -0,0 +1,23 @@
+/**
+ * Utility class for hashing text
+ *
+ * Uses the Web Crypto API, which is available on desktop and mobile,
+ * instead of Node's crypto module.
+ */
+export class HashUtils {
+	/**
+	 * Compute the SHA-256 digest of a string
+	 *
+	 * @param text - The text to hash
+	 * @returns The digest as a lowercase hex string
+	 */
+	static async sha256(text: string): Promise<string> {
+		const digest = await crypto.subtle.digest(
+			"SHA-256",
+			new TextEncoder().encode(text)
+		);
+		return Array.from(new Uint8Array(digest))
+			.map((byte) => byte.toString(16).padStart(2, "0"))
+			.join("");
+	}
+}
@@ -0,0 +1,57 @@
+import { DataAdapter, normalizePath } from "obsidian";
+
+/**
+ * Persists a JSON document in the plugin's folder
+ *
+ * Settings live in data.json; state that changes during runs (usage,
+ * caches, journals) is kept in separate files so it can be written often
+ * without rewriting the settings.
+ */
+export class JsonStore<T> {
+	private adapter: DataAdapter;
+	private path: string;
+
+	/**
+	 * Creates a store for one file
+	 *
+	 * @param adapter - The vault's data adapter
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
+	 * @param filename - File name within the plugin folder
+	 */
+	constructor(adapter: DataAdapter, pluginDir: string, filename: string) {
+		this.adapter = adapter;
+		this.path = normalizePath(`${pluginDir}/${filename}`);
+	}
+
+	/**
+	 * Read the stored document
+	 *
+	 * @param fallback - Value returned if the file is missing or unreadable
+	 * @returns The stored document merged over the fallback
+	 */
+	async load(fallback: T): Promise<T> {
+		try {
+			if (!(await this.adapter.exists(this.path))) {
+				return fallback;
+			}
+			const stored = JSON.parse(await this.adapter.read(this.path));
+			return Object.assign({}, fallback, stored);
+		} catch (error) {
+			console.error(`Failed to read ${this.path}:`, error);
+			return fallback;
+		}
+	}
+
+	/**
+	 * Write the document, replacing the previous contents
+	 *
+	 * @param data - The document to store
+	 */
+	async save(data: T): Promise<void> {
+		try {
+			await this.adapter.write(this.path, JSON.stringify(data));
+		} catch (error) {
+			console.error(`Failed to write ${this.path}:`, error);
+		}
+	}
+}
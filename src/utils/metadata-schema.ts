@@ -0,0 +1,252 @@
+import {
+	FieldCardinality,
+	MetadataField,
+	PromptType,
+	SuggestionSpec,
+} from "../types";
+import { ValidationResult } from "./tag-schema";
+
+export type MetadataValues = Record<string, string | string[]>;
+
+/**
+ * Builds the response schema for the metadata fields configured in
+ * settings
+ *
+ * All fields are requested in a single call. Every field is required in
+ * the response so OpenAI's strict mode accepts the schema; a field the
+ * note says nothing about comes back as "" or [].
+ */
+export class MetadataSchema {
+	static readonly toolName = "record_metadata";
+	// Most values accepted for a list field
+	static readonly maxValues = 10;
+	static readonly maxValueLength = 100;
+
+	/**
+	 * Built-in template, used if the bundled file is missing
+	 */
+	static readonly defaultTemplate = `---
+system: >-
+  You are an expert at organizing a personal knowledge base. You read notes
+  carefully and record their properties accurately, without guessing.
+---
+Fill in the properties of the note "{{ note_title }}" ({{ note_path }}). Follow these rules:
+
+- Only record what the note states or clearly implies
+- Leave a property empty ("" or []) when the note doesn't say
+- Use the allowed values exactly as written when a property lists them
+- Write names the way the note writes them
+- Return every property in the structured response
+
+Properties:
+{{ fields }}
+
+Content:
+{{ original_text }}`;
+
+	/**
+	 * Keep the fields that can be requested: a key, not used twice
+	 *
+	 * @param fields - The fields from settings
+	 * @returns The usable fields, with trimmed keys
+	 */
+	static getFields(fields: MetadataField[]): MetadataField[] {
+		const seen = new Set<string>();
+		return fields
+			.map((field) => ({ ...field, key: field.key.trim() }))
+			.filter((field) => {
+				if (!field.key || seen.has(field.key)) {
+					return false;
+				}
+				seen.add(field.key);
+				return true;
+			});
+	}
+
+	/**
+	 * Build the request spec for a set of fields
+	 *
+	 * @param fields - Usable fields, from `getFields`
+	 * @returns A spec that providers fill with `suggest`
+	 */
+	static build(fields: MetadataField[]): SuggestionSpec<MetadataValues> {
+		const properties: Record<string, object> = {};
+		for (const field of fields) {
+			const values =
+				field.allowedValues.length > 0
+					? { enum: field.allowedValues }
+					: {};
+			properties[field.key] =
+				field.cardinality === FieldCardinality.MULTIPLE
+					? {
+							type: "array",
+							description: field.description,
+							items: { type: "string", ...values },
+					  }
+					: {
+							type: "string",
+							description: field.description,
+							...(field.allowedValues.length > 0
+								? { enum: [...field.allowedValues, ""] }
+								: {}),
+					  };
+		}
+
+		return {
+			type: PromptType.METADATA_EXTRACTION,
+			schemaName: this.toolName,
+			schemaDescription: "Record the properties of the note.",
+			schema: {
+				type: "object",
+				properties,
+				required: fields.map((field) => field.key),
+				additionalProperties: false,
+			},
+			// Room for every field to use its full allowance
+			maxTokens: 100 + fields.length * 150,
+			defaultSystem:
+				"You are an expert at organizing a personal knowledge base.",
+			defaultTemplate: this.defaultTemplate,
+			validate: (value) => this.validate(value, fields),
+		};
+	}
+
+	/**
+	 * Describe the fields for the `{{ fields }}` template variable
+	 *
+	 * @param fields - Usable fields, from `getFields`
+	 * @returns One line per field
+	 */
+	static describeFields(fields: MetadataField[]): string {
+		return fields
+			.map((field) => {
+				const kind =
+					field.cardinality === FieldCardinality.MULTIPLE
+						? `a list of up to ${this.maxValues} values`
+						: "a single value";
+				const allowed =
+					field.allowedValues.length > 0
+						? ` Allowed values: ${field.allowedValues.join(", ")}.`
+						: "";
+				return `- ${field.key} (${kind}): ${
+					field.description || "No description."
+				}${allowed}`;
+			})
+			.join("\n");
+	}
+
+	/**
+	 * Validate a parsed response against the fields
+	 *
+	 * Values are trimmed, and allowed values are matched regardless of case
+	 * and returned as written in settings.
+	 *
+	 * @param value - The parsed response
+	 * @param fields - The fields that were requested
+	 * @returns The values by key if valid, otherwise the problems found
+	 */
+	static validate(
+		value: unknown,
+		fields: MetadataField[]
+	): ValidationResult<MetadataValues> {
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			return {
+				valid: false,
+				errors: ["Response must be an object with one property per field"],
+			};
+		}
+
+		const response = value as Record<string, unknown>;
+		const errors: string[] = [];
+		const values: MetadataValues = {};
+
+		for (const field of fields) {
+			const raw = response[field.key];
+			if (raw === undefined) {
+				errors.push(`\`${field.key}\` is missing`);
+				continue;
+			}
+
+			if (field.cardinality === FieldCardinality.MULTIPLE) {
+				if (!Array.isArray(raw)) {
+					errors.push(`\`${field.key}\` must be an array`);
+					continue;
+				}
+				if (raw.length > this.maxValues) {
+					errors.push(
+						`\`${field.key}\` must contain at most ${this.maxValues} values`
+					);
+				}
+				const items: string[] = [];
+				for (const item of raw) {
+					const checked = this.checkValue(field, item);
+					if (typeof checked === "string") {
+						if (checked && !items.includes(checked)) {
+							items.push(checked);
+						}
+					} else {
+						errors.push(checked.error);
+					}
+				}
+				values[field.key] = items;
+			} else {
+				const checked = this.checkValue(field, raw);
+				if (typeof checked === "string") {
+					values[field.key] = checked;
+				} else {
+					errors.push(checked.error);
+				}
+			}
+		}
+
+		if (errors.length > 0) {
+			return { valid: false, errors };
+		}
+		return { valid: true, value: values, errors: [] };
+	}
+
+	/**
+	 * Check a single value of a field
+	 *
+	 * @returns The normalized value, "" for none, or the problem found
+	 */
+	private static checkValue(
+		field: MetadataField,
+		value: unknown
+	): string | { error: string } {
+		if (typeof value !== "string") {
+			return { error: `Values of \`${field.key}\` must be strings` };
+		}
+
+		const trimmed = value.replace(/\s+/g, " ").trim();
+		if (!trimmed) {
+			return "";
+		}
+		if (trimmed.length > this.maxValueLength) {
+			return {
+				error: `A value of \`${field.key}\` is longer than ${this.maxValueLength} characters`,
+			};
+		}
+		if (field.allowedValues.length === 0) {
+			return trimmed;
+		}
+
+		const allowed = field.allowedValues.find(
+			(option) => option.toLowerCase() === trimmed.toLowerCase()
+		);
+		return (
+			allowed ?? {
+				error: `"${trimmed}" is not an allowed value of \`${
+					field.key
+				}\` (${field.allowedValues.join(", ")})`,
+			}
+		);
+	}
+
+	/**
+	 * Whether extraction found anything to write
+	 */
+	static isEmpty(values: MetadataValues): boolean {
+		return Object.values(values).every((value) => value.length === 0);
+	}
+}
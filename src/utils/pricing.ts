@@ -0,0 +1,113 @@
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/**
+ * Per-model price table used to turn token counts into costs
+ *
+ * Prices are matched by the longest model name prefix, so dated snapshots
+ * like `gpt-4o-2024-08-06` use the `gpt-4o` price. Models without a known
+ * price (local models, custom endpoints) cost nothing unless the user adds
+ * an override in settings.
+ */
+export class Pricing {
+	private static readonly defaultPrices: Record<string, ModelPrice> = {
+		// Claude models
+		"claude-3-7-sonnet": { input: 3, output: 15 },
+		"claude-3-5-sonnet": { input: 3, output: 15 },
+		"claude-3-5-haiku": { input: 0.8, output: 4 },
+		"claude-3-opus": { input: 15, output: 75 },
+		"claude-3-sonnet": { input: 3, output: 15 },
+		"claude-3-haiku": { input: 0.25, output: 1.25 },
+		// OpenAI models
+		"o3-mini": { input: 1.1, output: 4.4 },
+		"o1-pro": { input: 150, output: 600 },
+		"o1-mini": { input: 1.1, output: 4.4 },
+		o1: { input: 15, output: 60 },
+		"gpt-4.5-preview": { input: 75, output: 150 },
+		"gpt-4o-mini": { input: 0.15, output: 0.6 },
+		"gpt-4o": { input: 2.5, output: 10 },
+		"gpt-4-turbo": { input: 10, output: 30 },
+		"gpt-4": { input: 30, output: 60 },
+		"gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+	};
+
+	private static overrides: Record<string, ModelPrice> = {};
+
+	/**
+	 * Set user price overrides from the settings text
+	 *
+	 * @param text - One `model: input, output` line per model, in USD per million tokens
+	 */
+	static setOverrides(text: string): void {
+		this.overrides = {};
+		if (!text) return;
+
+		for (const line of text.split("\n")) {
+			const match = line.match(/^\s*([^:]+?)\s*:\s*([\d.]+)\s*,\s*([\d.]+)\s*$/);
+			if (match) {
+				this.overrides[match[1]] = {
+					input: parseFloat(match[2]),
+					output: parseFloat(match[3]),
+				};
+			}
+		}
+	}
+
+	/**
+	 * Look up the price of a model
+	 *
+	 * @param model - The model name
+	 * @returns The price, or null if the model has no known price
+	 */
+	static getPrice(model: string): ModelPrice | null {
+		if (this.overrides[model]) {
+			return this.overrides[model];
+		}
+
+		let bestMatch: string | null = null;
+		for (const prefix of Object.keys(this.defaultPrices)) {
+			if (
+				model.startsWith(prefix) &&
+				(!bestMatch || prefix.length > bestMatch.length)
+			) {
+				bestMatch = prefix;
+			}
+		}
+
+		return bestMatch ? this.defaultPrices[bestMatch] : null;
+	}
+
+	/**
+	 * Estimate the cost of a request
+	 *
+	 * @param model - The model name
+	 * @param inputTokens - Prompt tokens
+	 * @param outputTokens - Completion tokens
+	 * @returns Cost in USD, 0 for models without a known price
+	 */
+	static estimateCost(
+		model: string,
+		inputTokens: number,
+		outputTokens: number
+	): number {
+		const price = this.getPrice(model);
+		if (!price) return 0;
+
+		return (
+			(inputTokens * price.input + outputTokens * price.output) /
+			1000000
+		);
+	}
+
+	/**
+	 * Format a USD amount for display
+	 */
+	static formatCost(cost: number): string {
+		return cost < 0.01 && cost > 0 ? "<$0.01" : `$${cost.toFixed(2)}`;
+	}
+}
@@ -1,174 +1,121 @@
-import { App, PluginManifest } from "obsidian";
-import * as path from "path";
+import { App, normalizePath, parseYaml, TFile } from "obsidian";
+import { FileUtils } from "./file-utils";
+
+/**
+ * A parsed prompt template
+ */
+export interface PromptTemplate {
+	// System prompt from the `system` frontmatter key, if any
+	system: string | null;
+	// The user message, with `{{ variable }}` placeholders
+	body: string;
+}
 
 /**
  * Prompt templates manager that loads prompts from markdown files in Obsidian
+ *
+ * Templates are markdown notes: an optional `system` frontmatter key holds
+ * the system prompt and the note body is the user message. Everything goes
+ * through the vault adapter, so loading works on mobile as well.
  */
 export class PromptLoader {
 	private static cache: Record<string, string> = {};
 	private static app: App | null = null;
-	private static pluginId = "ai-excerpt-generator";
+	private static pluginDir = "";
 
 	/**
 	 * Initialize the prompt loader with Obsidian's App instance
 	 *
 	 * @param app - Obsidian App instance
+	 * @param pluginDir - The plugin's folder, from `manifest.dir`
 	 */
-	public static initialize(app: App): void {
+	public static initialize(app: App, pluginDir: string): void {
 		this.app = app;
+		this.pluginDir = pluginDir;
 	}
 
 	/**
-	 * Load a prompt template from a markdown file
-	 * Loads prompts from the plugin's packaged prompts
+	 * Load a template shipped in the plugin's `prompts` folder
 	 *
 	 * @param filename - The name of the markdown file (without extension)
-	 * @returns The prompt content as a string
+	 * @returns The raw template, or null if the file isn't there
 	 */
-	public static async load(filename: string): Promise<string> {
+	public static async loadBundled(filename: string): Promise<string | null> {
 		if (!this.app) {
 			throw new Error(
 				"PromptLoader not initialized. Call initialize() first."
 			);
 		}
 
-		const cacheKey = filename;
-
 		// Return from cache if available
-		if (this.cache[cacheKey]) {
-			return this.cache[cacheKey];
+		if (this.cache[filename]) {
+			return this.cache[filename];
 		}
 
-		let content: string | null = null;
-
-		try {
-			// Get the plugin instance
-			const plugins = (this.app as any).plugins;
-			const plugin = plugins.getPlugin(this.pluginId);
-
-			if (plugin) {
-				const pluginPromptPath = `prompts/${filename}.md`;
-
-				try {
-					// Attempt multiple strategies to find the prompt file
-					const possiblePaths = [];
-
-					// Strategy 1: Using plugin.path if available
-					if (plugin.path) {
-						possiblePaths.push(
-							path.join(plugin.path, pluginPromptPath)
-						);
-					}
-
-					// Strategy 2: Using manifest.dir if available
-					if (plugin.manifest && plugin.manifest.dir) {
-						possiblePaths.push(
-							path.join(plugin.manifest.dir, pluginPromptPath)
-						);
-					}
-
-					// Strategy 3: Direct path in plugin directory
-					possiblePaths.push(pluginPromptPath);
-
-					// Strategy 4: Using baseDir from plugin settings if available
-					if ((plugin as any).baseDir) {
-						possiblePaths.push(
-							path.join((plugin as any).baseDir, pluginPromptPath)
-						);
-					}
-
-					// Try each path until we find one that works
-					for (const pathToTry of possiblePaths) {
-						if (await this.app.vault.adapter.exists(pathToTry)) {
-							content = await this.app.vault.adapter.read(
-								pathToTry
-							);
-							console.log(
-								`Loaded prompt from path: ${pathToTry}`
-							);
-							break;
-						}
-					}
-
-					// If still no content, look directly in plugin's bundled files
-					if (!content && plugin.manifest) {
-						// Try to find in the plugin's resources directory
-						const resourcePath = `.obsidian/plugins/${this.pluginId}/${pluginPromptPath}`;
-						if (await this.app.vault.adapter.exists(resourcePath)) {
-							content = await this.app.vault.adapter.read(
-								resourcePath
-							);
-							console.log(
-								`Loaded prompt from plugin resources: ${resourcePath}`
-							);
-						}
-					}
-
-					if (!content) {
-						console.warn(
-							`Could not find prompt file: ${filename} in any location`
-						);
-					}
-				} catch (pluginError) {
-					console.error(
-						`Error loading from plugin directory: ${pluginError}`
-					);
-				}
-			} else {
-				console.error(`Plugin not found: ${this.pluginId}`);
-			}
+		const path = normalizePath(`${this.pluginDir}/prompts/${filename}.md`);
+		if (!(await this.app.vault.adapter.exists(path))) {
+			console.warn(`Could not find bundled prompt file: ${path}`);
+			return null;
+		}
 
-			// If content was loaded, process and cache it
-			if (content) {
-				const promptContent = this.processMarkdown(content);
-				this.cache[cacheKey] = promptContent;
-				return promptContent;
-			}
+		const content = await this.app.vault.adapter.read(path);
+		this.cache[filename] = content;
+		return content;
+	}
 
-			// Provide a basic default prompt if the file can't be loaded
-			if (filename === "excerpt-generation") {
-				const defaultPrompt =
-					"Generate a concise summary of the following text in less than 200 words, focusing on the key points and main ideas.";
-				console.warn("Using hardcoded default prompt as fallback");
-				this.cache[cacheKey] = defaultPrompt;
-				return defaultPrompt;
-			}
+	/**
+	 * Load a template note from the vault
+	 *
+	 * Notes are read on every call so edits apply to the next request.
+	 *
+	 * @param path - Vault path of the note, with or without `.md`
+	 * @returns The raw template
+	 * @throws Error if the note doesn't exist
+	 */
+	public static async loadNote(path: string): Promise<string> {
+		if (!this.app) {
+			throw new Error(
+				"PromptLoader not initialized. Call initialize() first."
+			);
+		}
 
-			// If we couldn't load the content, throw an error
-			throw new Error(`Failed to load prompt template: ${filename}`);
-		} catch (error) {
-			console.error(`Failed to load prompt template: ${filename}`, error);
-			throw error;
+		const normalized = normalizePath(
+			path.endsWith(".md") ? path : `${path}.md`
+		);
+		const file = this.app.vault.getAbstractFileByPath(normalized);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Prompt note not found: ${normalized}`);
 		}
+
+		return await this.app.vault.cachedRead(file);
 	}
 
 	/**
-	 * Process markdown content to extract usable prompt text
-	 * Handles Mixdown subset of Markdown format
+	 * Split a template note into its system prompt and body
 	 *
-	 * @param markdown - Raw markdown content
-	 * @returns Processed prompt text
+	 * @param markdown - Raw template content
+	 * @returns The parsed template
 	 */
-	private static processMarkdown(markdown: string): string {
-		// Split by lines
-		const lines = markdown.split("\n");
-
-		// Remove title (first line starting with #)
-		let startIndex = 0;
-		for (let i = 0; i < lines.length; i++) {
-			if (lines[i].trim().startsWith("#")) {
-				startIndex = i + 1;
-				break;
+	public static parse(markdown: string): PromptTemplate {
+		const { hasFrontmatter, frontmatter } =
+			FileUtils.extractFrontmatter(markdown);
+
+		let system: string | null = null;
+		if (hasFrontmatter && frontmatter) {
+			try {
+				const data = parseYaml(frontmatter);
+				if (data && typeof data.system === "string") {
+					system = data.system.trim();
+				}
+			} catch (error) {
+				console.error("Invalid frontmatter in prompt template:", error);
 			}
 		}
 
-		// Join the remaining lines with proper paragraph handling
-		// This preserves the Mixdown subset of Markdown formatting
-		return lines
-			.slice(startIndex)
-			.join("\n")
-			.replace(/\n{3,}/g, "\n\n") // Normalize multiple blank lines to double blank lines
-			.trim();
+		return {
+			system,
+			body: markdown.replace(FileUtils.FRONTMATTER_REGEX, "").trim(),
+		};
 	}
 
 	/**
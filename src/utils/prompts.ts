@@ -1,25 +1,64 @@
-import { App } from "obsidian";
-import { PromptType } from "../types";
+import { App, Notice } from "obsidian";
+import { NoteContext, PromptType, SuggestionSpec } from "../types";
+import { PromptLoader } from "./prompt-loader";
+import { SuggestionSchemas } from "./suggestion-schema";
+import { MetadataSchema } from "./metadata-schema";
+import { HashUtils } from "./hash-utils";
+import { TagSchema } from "./tag-schema";
+
+/**
+ * A rendered prompt, ready to send to a provider
+ */
+export interface RenderedPrompt {
+	system: string;
+	prompt: string;
+}
 
 /**
  * Utility class for managing prompt templates
+ *
+ * The tag prompt is rendered from a template: the note configured in
+ * settings if there is one, otherwise the template bundled with the
+ * plugin. Templates use `{{ variable }}` placeholders.
  */
 export class Prompts {
 	private static app: App;
 	private static promptCache: Record<string, string> = {};
+	// Vault path of the user's tag template, empty for the bundled one
+	private static templatePath = "";
+	// Path we already warned about, so a missing note doesn't spam notices
+	private static warnedPath: string | null = null;
 
 	/**
 	 * Initialize the prompts system
+	 *
+	 * @param app - Obsidian App instance
+	 * @param pluginDir - The plugin's folder, where bundled prompts live
 	 */
-	public static initialize(app: App): void {
+	public static initialize(app: App, pluginDir: string): void {
 		this.app = app;
+		PromptLoader.initialize(app, pluginDir);
+	}
+
+	/**
+	 * Use a note in the vault as the tag generation template
+	 *
+	 * @param path - Vault path of the template note, empty for the default
+	 */
+	public static setTemplatePath(path: string): void {
+		if (path.trim() !== this.templatePath) {
+			this.warnedPath = null;
+		}
+		this.templatePath = path.trim();
 	}
 
 	/**
 	 * Load all prompt templates into memory
 	 */
 	public static async loadAllPrompts(): Promise<void> {
-		await this.loadPrompt(PromptType.TAG_GENERATION);
+		for (const type of Object.values(PromptType)) {
+			await this.loadPrompt(type);
+		}
 	}
 
 	/**
@@ -27,25 +66,46 @@ export class Prompts {
 	 */
 	public static async reload(): Promise<void> {
 		this.promptCache = {};
+		PromptLoader.clearCache();
 		await this.loadAllPrompts();
 	}
 
 	/**
-	 * Load a specific prompt template
+	 * Load a specific bundled prompt template
 	 */
 	private static async loadPrompt(type: PromptType): Promise<void> {
 		try {
-			const response = await fetch(`/prompts/${type}.md`);
-			const text = await response.text();
-			this.promptCache[type] = text;
+			this.promptCache[type] =
+				(await PromptLoader.loadBundled(type)) ||
+				this.getDefaultPrompt(type);
 		} catch (error) {
 			console.error(`Failed to load prompt template: ${type}`, error);
-			this.promptCache[type] = this.defaultPrompt;
+			this.promptCache[type] = this.getDefaultPrompt(type);
 		}
 	}
 
 	/**
-	 * Get the tag generation prompt
+	 * Get the built-in template for a prompt type
+	 */
+	private static getDefaultPrompt(type: PromptType): string {
+		switch (type) {
+			case PromptType.EXCERPT_GENERATION:
+				return this.defaultExcerptPrompt;
+			case PromptType.TAG_GENERATION:
+				return this.defaultPrompt;
+			case PromptType.METADATA_EXTRACTION:
+				return MetadataSchema.defaultTemplate;
+			default:
+				return (
+					SuggestionSchemas.forType(type)?.defaultTemplate ||
+					this.defaultPrompt
+				);
+		}
+	}
+
+	/**
+	 * Get the bundled tag generation template, as a starting point for a
+	 * custom template note
 	 */
 	public static get tagGeneration(): string {
 		return (
@@ -54,48 +114,285 @@ export class Prompts {
 	}
 
 	/**
-	 * Default prompt for tag generation
+	 * Get the bundled excerpt generation template
+	 */
+	public static get excerptGeneration(): string {
+		return (
+			this.promptCache[PromptType.EXCERPT_GENERATION] ||
+			this.defaultExcerptPrompt
+		);
+	}
+
+	/**
+	 * System prompt used when a template doesn't set one
+	 */
+	public static readonly tagSystemPrompt =
+		"You are an expert at analyzing content and generating relevant, consistent tags that follow Obsidian's best practices. You understand the importance of maintaining a clean and useful tag hierarchy. When possible, reuse existing tags to maintain consistency across the knowledge base.";
+
+	/**
+	 * System prompt for excerpts when the template doesn't set one
+	 */
+	public static readonly excerptSystemPrompt =
+		"You are an expert editor who writes short, accurate excerpts for notes and articles.";
+
+	/**
+	 * Render the tag generation prompt for a note
+	 *
+	 * Available variables: `original_text` (alias `content`), `note_title`,
+	 * `note_path`, `existing_tags`, `tag_count` and `max_tags`.
+	 *
+	 * @param content - The note content to generate tags for
+	 * @param existingTags - Tags already used in the vault, offered for consistency
+	 * @param context - The note being tagged, if known
+	 * @returns The system prompt and user message
+	 */
+	public static async renderTagPrompt(
+		content: string,
+		existingTags: string[],
+		context?: NoteContext
+	): Promise<RenderedPrompt> {
+		return this.renderTemplate(
+			await this.getTagTemplate(),
+			content,
+			{
+				note_title: context?.title || "",
+				note_path: context?.path || "",
+				existing_tags:
+					existingTags.length > 0 ? existingTags.join(", ") : "none",
+				tag_count: String(existingTags.length),
+				max_tags: String(TagSchema.maxTags),
+			},
+			this.tagSystemPrompt
+		);
+	}
+
+	/**
+	 * Identify the tag template in use, so notes tagged with an older
+	 * template can be found
+	 *
+	 * @returns A short hash of the raw template
+	 */
+	public static async getTagPromptVersion(): Promise<string> {
+		return (await HashUtils.sha256(await this.getTagTemplate())).slice(
+			0,
+			12
+		);
+	}
+
+	/**
+	 * Render the excerpt generation prompt for a note
+	 *
+	 * Available variables: `original_text` (alias `content`), `note_title`,
+	 * `note_path` and `max_length`.
+	 *
+	 * @param content - The note content to summarize
+	 * @param maxLength - The maximum excerpt length in characters
+	 * @param context - The note being summarized, if known
+	 * @returns The system prompt and user message
+	 */
+	public static renderExcerptPrompt(
+		content: string,
+		maxLength: number,
+		context?: NoteContext
+	): RenderedPrompt {
+		return this.renderTemplate(
+			this.excerptGeneration,
+			content,
+			{
+				note_title: context?.title || "",
+				note_path: context?.path || "",
+				max_length: String(maxLength),
+			},
+			this.excerptSystemPrompt
+		);
+	}
+
+	/**
+	 * Render the prompt for a title, alias or description suggestion
+	 *
+	 * Available variables: `original_text` (alias `content`), `note_title`,
+	 * `note_path`, plus any passed in `variables` such as
+	 * `existing_aliases`.
+	 *
+	 * @param spec - The suggestion to render the prompt for
+	 * @param content - The note content
+	 * @param context - The note the suggestion is for, if known
+	 * @param variables - Extra template variables
+	 * @returns The system prompt and user message
+	 */
+	public static renderSuggestionPrompt<T>(
+		spec: SuggestionSpec<T>,
+		content: string,
+		context?: NoteContext,
+		variables: Record<string, string> = {}
+	): RenderedPrompt {
+		return this.renderTemplate(
+			this.promptCache[spec.type] || spec.defaultTemplate,
+			content,
+			{
+				note_title: context?.title || "",
+				note_path: context?.path || "",
+				...variables,
+			},
+			spec.defaultSystem
+		);
+	}
+
+	/**
+	 * Render a raw template with the note content and other variables
+	 *
+	 * If the template doesn't place the note content, it is appended at
+	 * the end.
+	 */
+	private static renderTemplate(
+		raw: string,
+		content: string,
+		values: Record<string, string>,
+		defaultSystem: string
+	): RenderedPrompt {
+		const template = PromptLoader.parse(raw);
+
+		let prompt = this.render(template.body, {
+			...values,
+			original_text: content,
+			content,
+		});
+		if (!/\{\{\s*(original_text|content)\s*\}\}/.test(template.body)) {
+			prompt = `${prompt}\n\nContent:\n${content}`;
+		}
+
+		return {
+			system: template.system || defaultSystem,
+			prompt,
+		};
+	}
+
+	/**
+	 * Get the raw tag template, preferring the user's note
+	 */
+	private static async getTagTemplate(): Promise<string> {
+		if (this.templatePath) {
+			try {
+				return await PromptLoader.loadNote(this.templatePath);
+			} catch (error) {
+				console.error("Failed to load prompt note:", error);
+				if (this.warnedPath !== this.templatePath) {
+					this.warnedPath = this.templatePath;
+					new Notice(
+						`Prompt note "${this.templatePath}" could not be read. Using the default prompt until it is fixed.`
+					);
+				}
+			}
+		}
+		return this.tagGeneration;
+	}
+
+	/**
+	 * Replace `{{ variable }}` placeholders, leaving unknown ones untouched
+	 *
+	 * @param template - The template text
+	 * @param values - Values by variable name
+	 * @returns The rendered text
+	 */
+	public static render(
+		template: string,
+		values: Record<string, string>
+	): string {
+		return template.replace(
+			/\{\{\s*(\w+)\s*\}\}/g,
+			(placeholder, name: string) =>
+				name in values ? values[name] : placeholder
+		);
+	}
+
+	/**
+	 * Build the user message for merging the tags of a chunked note
+	 *
+	 * @param candidates - Tags suggested for the note's parts, with counts
+	 * @param outline - The note's structure, e.g. its headings
+	 * @param existingTags - Tags already used in the vault, offered for consistency
+	 * @returns The user message sent to the provider
+	 */
+	public static buildMergeRequest(
+		candidates: string[],
+		outline: string,
+		existingTags: string[]
+	): string {
+		const existingTagsContext =
+			existingTags.length > 0
+				? `\nExisting tags in the vault (use these for consistency when appropriate):\n${existingTags.join(
+						", "
+				  )}`
+				: "";
+
+		return `A long note was tagged in parts. Choose the tags that describe the note as a whole from the candidates below. Follow these rules:
+						- Prefer tags suggested for several parts over tags that only fit one part
+						- Merge near-duplicates into a single tag
+						- Keep the same tag format: lowercase, hyphens for multi-word tags, slashes for hierarchy
+						- Limit to 3-7 most relevant tags unless the note is highly complex
+						- Return the tags in the structured response, without the prefix or a leading #${existingTagsContext}
+
+						Note outline:
+						${outline}
+
+						Candidate tags:
+						${candidates.join("\n")}`;
+	}
+
+	/**
+	 * Default prompt for tag generation, used if the bundled file is missing
 	 */
 	private static get defaultPrompt(): string {
-		return `<prompt>
-  <meta>
-    title: Tag Generation Prompt
-    description: Generates relevant tags for Obsidian notes
-    author: Matthias Jordan
-    created: March 25, 2025
-    version: 1.0.0
-    tags:
-      - tags
-      - metadata
-      - obsidian
-  </meta>
-  <params>
-    system: You are an expert at analyzing content and generating relevant, consistent tags that follow Obsidian's best practices. You understand the importance of maintaining a clean and useful tag hierarchy.
-    instructions:
-      - Generate a list of relevant tags for the given content
-      - Follow Obsidian's tag best practices:
-        - Use lowercase letters
-        - Use hyphens for multi-word tags
-        - Keep tags concise and meaningful
-        - Avoid special characters (except hyphens)
-        - Create hierarchical tags when appropriate (e.g., tech/programming)
-      - Focus on key topics, themes, and concepts
-      - Include both broad categories and specific details when relevant
-      - Maintain consistency with existing tag patterns
-      - Avoid overly generic tags that wouldn't be useful for filtering
-      - Limit to 3-7 most relevant tags unless content is highly complex
-      - Do not include the prefix in the tags - it will be added later if configured
-    content:
-      text: {{ original_text }}
-    output:
-      format: json
-      structure: array
-  </params>
-  <system />
-  <instructions />
-  <o>
-    {{ tags }}
-  </o>
-</prompt>`;
+		return `---
+system: >-
+  You are an expert at analyzing content and generating relevant, consistent
+  tags that follow Obsidian's best practices. You understand the importance
+  of maintaining a clean and useful tag hierarchy. When possible, reuse
+  existing tags to maintain consistency across the knowledge base.
+---
+Generate relevant tags for the note "{{ note_title }}" ({{ note_path }}). Follow these rules:
+
+- Use lowercase letters
+- Use hyphens for multi-word tags
+- Keep tags concise and meaningful
+- Avoid special characters (except hyphens)
+- Create hierarchical tags when appropriate (e.g., tech/programming)
+- Focus on key topics, themes, and concepts
+- Include both broad categories and specific details when relevant
+- Maintain consistency with existing tag patterns
+- Prioritize reusing existing tags when they fit the content
+- Only create new tags when existing ones don't capture the concept
+- Avoid overly generic tags that wouldn't be useful for filtering
+- Limit to 3-7 most relevant tags unless content is highly complex, and never more than {{ max_tags }}
+- Return the tags in the structured response, without the prefix or a leading #
+
+Existing tags in the vault ({{ tag_count }}, use these for consistency when appropriate):
+{{ existing_tags }}
+
+Content:
+{{ original_text }}`;
+	}
+
+	/**
+	 * Default prompt for excerpts, used if the bundled file is missing
+	 */
+	private static get defaultExcerptPrompt(): string {
+		return `---
+system: >-
+  You are an expert editor who writes short, accurate excerpts for notes
+  and articles. Excerpts are shown in listings and link previews, so they
+  must stand on their own and describe what the reader will find.
+---
+Write an excerpt for the note "{{ note_title }}". Follow these rules:
+
+- At most {{ max_length }} characters
+- One or two plain sentences, no markdown, no line breaks
+- Describe what the note covers instead of repeating its first sentence
+- Use the language of the note
+- Don't start with "This note" or repeat the title
+- Return the excerpt in the structured response
+
+Content:
+{{ original_text }}`;
 	}
 }
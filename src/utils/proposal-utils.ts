@@ -0,0 +1,170 @@
+import { TagProposal } from "../types";
+import { FileUtils } from "./file-utils";
+import { TagUtils } from "./tag-utils";
+
+/**
+ * The tags a dry run proposes for one note, kept with its queued job
+ */
+export interface ProposedTags {
+	path: string;
+	current: string[];
+	tags: string[];
+	added: string[];
+	removed: string[];
+}
+
+/**
+ * A row of a proposal note, as edited by the user
+ */
+export interface ProposalRow {
+	// Link text of the note the row is for
+	link: string;
+	tags: string[];
+}
+
+/**
+ * Utility class for dry-run proposal notes
+ *
+ * A dry run writes its proposed tags to a note with one table row per
+ * file instead of changing the files. The table can be edited and then
+ * applied: rows that were deleted are left out, and the "Proposed tags"
+ * column is written as it stands.
+ */
+export class ProposalUtils {
+	// Frontmatter property marking a note as a proposal
+	static readonly PROPOSAL_KEY = "ai-tag-proposal";
+
+	private static readonly HEADER = [
+		"File",
+		"Current tags",
+		"Proposed tags",
+		"Changes",
+	];
+
+	/**
+	 * Reduce a tag proposal to what the proposal note shows
+	 */
+	static fromProposal(proposal: TagProposal): ProposedTags {
+		return {
+			path: proposal.file.path,
+			current: proposal.current,
+			tags: proposal.merge.tags,
+			added: proposal.merge.added,
+			removed: proposal.merge.removed,
+		};
+	}
+
+	/**
+	 * Render the proposal note for a dry run
+	 *
+	 * @param proposals - The proposed changes, one per file
+	 * @param scope - Description of the files in the run
+	 * @param skipped - Files skipped, by reason
+	 * @returns The note content
+	 */
+	static render(
+		proposals: ProposedTags[],
+		scope: string,
+		skipped: Record<string, number>
+	): string {
+		const lines = [
+			"---",
+			`${this.PROPOSAL_KEY}: true`,
+			`created: ${new Date().toISOString()}`,
+			"---",
+			"",
+			"# Tag proposal",
+			"",
+			`Dry run for ${proposals.length} notes${scope}. No notes were changed.`,
+			"",
+			'Edit the "Proposed tags" column or delete the rows you don\'t want, then run "Apply tag proposal" with this note open. Tags listed in a note\'s locked-tags are kept either way.',
+			"",
+		];
+
+		const skippedSummary = Object.entries(skipped)
+			.map(([reason, count]) => `${reason}: ${count}`)
+			.join(", ");
+		if (skippedSummary) {
+			lines.push(`Skipped: ${skippedSummary}.`, "");
+		}
+
+		lines.push(
+			`| ${this.HEADER.join(" | ")} |`,
+			`| ${this.HEADER.map(() => "---").join(" | ")} |`
+		);
+		for (const proposal of proposals) {
+			const link = proposal.path.replace(/\.md$/, "");
+			lines.push(
+				`| [[${link}]] | ${proposal.current.join(", ")} | ${proposal.tags.join(
+					", "
+				)} | ${this.describeChanges(proposal)} |`
+			);
+		}
+
+		return lines.join("\n") + "\n";
+	}
+
+	/**
+	 * Read the rows of an edited proposal note
+	 *
+	 * @param content - The note content
+	 * @returns The rows left in the table
+	 */
+	static parse(content: string): ProposalRow[] {
+		const rows: ProposalRow[] = [];
+		for (const line of FileUtils.removeFrontmatter(content).split("\n")) {
+			const cells = this.splitRow(line);
+			if (!cells || cells.length < 3) {
+				continue;
+			}
+
+			const link = cells[0].match(/\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/);
+			if (!link) {
+				// Header, separator or a row whose link was removed
+				continue;
+			}
+			rows.push({
+				link: link[1].trim(),
+				tags: TagUtils.parseFrontmatterTags(cells[2]),
+			});
+		}
+		return rows;
+	}
+
+	/**
+	 * Whether a note's frontmatter marks it as a proposal
+	 *
+	 * @param frontmatter - The note's frontmatter properties, if any
+	 */
+	static isProposal(frontmatter?: Record<string, unknown>): boolean {
+		return frontmatter?.[this.PROPOSAL_KEY] === true;
+	}
+
+	/**
+	 * Split a markdown table row into its cells
+	 *
+	 * @returns The trimmed cells, or null if the line isn't a table row
+	 */
+	private static splitRow(line: string): string[] | null {
+		const trimmed = line.trim();
+		if (!trimmed.startsWith("|")) {
+			return null;
+		}
+		return trimmed
+			.replace(/^\|/, "")
+			.replace(/\|$/, "")
+			.split("|")
+			.map((cell) => cell.trim());
+	}
+
+	/**
+	 * Summarize a proposal's changes for the "Changes" column
+	 */
+	private static describeChanges(proposal: ProposedTags): string {
+		const changes = [
+			...proposal.added.map((tag) => `+${tag}`),
+			...proposal.removed.map((tag) => `−${tag}`),
+		];
+		return changes.length > 0 ? changes.join(" ") : "no change";
+	}
+}
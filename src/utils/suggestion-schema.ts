@@ -0,0 +1,248 @@
+import { PromptType, SuggestionSpec } from "../types";
+import { ValidationResult } from "./tag-schema";
+
+/**
+ * Schemas for the title, alias and description suggestions
+ *
+ * Each spec bundles the structured response schema, the validator and the
+ * built-in prompt for one PromptType, so providers and FileProcessor can
+ * handle every suggestion the same way.
+ */
+export class SuggestionSchemas {
+	static readonly maxTitleLength = 100;
+	static readonly maxAliases = 5;
+	static readonly maxAliasLength = 80;
+	static readonly maxDescriptionLength = 160;
+
+	static readonly title: SuggestionSpec<string> = {
+		type: PromptType.TITLE_SUGGESTION,
+		schemaName: "record_title",
+		schemaDescription: "Record the suggested title for the note.",
+		schema: {
+			type: "object",
+			properties: {
+				title: {
+					type: "string",
+					description: "The suggested note title, without extension",
+				},
+			},
+			required: ["title"],
+			additionalProperties: false,
+		},
+		maxTokens: 100,
+		defaultSystem:
+			"You are an expert editor who names notes in a personal knowledge base.",
+		defaultTemplate: `---
+system: >-
+  You are an expert editor who names notes in a personal knowledge base.
+  Good titles are specific, scannable and make sense when seen in a link.
+---
+Suggest a better title for the note currently titled "{{ note_title }}" ({{ note_path }}). Follow these rules:
+
+- Describe the note's main subject specifically, in at most 80 characters
+- Use the language of the note
+- Keep the current title if it is already clear and specific
+- Don't use characters that aren't allowed in file names: \\ / : * ? " < > | # ^ [ ]
+- Don't add a date, file extension or quotes
+- Return the title in the structured response
+
+Content:
+{{ original_text }}`,
+		validate: (value) =>
+			SuggestionSchemas.validateText(
+				value,
+				"title",
+				SuggestionSchemas.maxTitleLength
+			),
+	};
+
+	static readonly aliases: SuggestionSpec<string[]> = {
+		type: PromptType.ALIAS_SUGGESTION,
+		schemaName: "record_aliases",
+		schemaDescription: "Record the suggested aliases for the note.",
+		schema: {
+			type: "object",
+			properties: {
+				aliases: {
+					type: "array",
+					description: `Up to ${SuggestionSchemas.maxAliases} alternative names for the note's subject`,
+					items: { type: "string" },
+				},
+			},
+			required: ["aliases"],
+			additionalProperties: false,
+		},
+		maxTokens: 200,
+		defaultSystem:
+			"You are an expert at organizing a personal knowledge base.",
+		defaultTemplate: `---
+system: >-
+  You are an expert at organizing a personal knowledge base. Aliases let a
+  note be found and linked under the other names people use for its
+  subject.
+---
+Suggest aliases for the note "{{ note_title }}". Follow these rules:
+
+- Alternative names, abbreviations, acronyms or common spellings of the note's subject
+- At most 5 aliases, each a short phrase
+- Don't repeat the title or these existing aliases: {{ existing_aliases }}
+- Use the language of the note
+- Return the aliases in the structured response
+
+Content:
+{{ original_text }}`,
+		validate: (value) => SuggestionSchemas.validateAliases(value),
+	};
+
+	static readonly description: SuggestionSpec<string> = {
+		type: PromptType.DESCRIPTION_SUGGESTION,
+		schemaName: "record_description",
+		schemaDescription: "Record a one-line description of the note.",
+		schema: {
+			type: "object",
+			properties: {
+				description: {
+					type: "string",
+					description: "One plain sentence describing the note",
+				},
+			},
+			required: ["description"],
+			additionalProperties: false,
+		},
+		maxTokens: 150,
+		defaultSystem:
+			"You are an expert editor who writes one-line descriptions for notes.",
+		defaultTemplate: `---
+system: >-
+  You are an expert editor who writes one-line descriptions for notes.
+  Descriptions appear in listings and search results next to the title.
+---
+Write a one-line description for the note "{{ note_title }}". Follow these rules:
+
+- A single plain sentence of at most 160 characters, without markdown
+- Say what the note is about, without repeating the title
+- Use the language of the note
+- Return the description in the structured response
+
+Content:
+{{ original_text }}`,
+		validate: (value) =>
+			SuggestionSchemas.validateText(
+				value,
+				"description",
+				SuggestionSchemas.maxDescriptionLength
+			),
+	};
+
+	/**
+	 * Get the spec for a suggestion prompt type
+	 *
+	 * @param type - The prompt type
+	 * @returns The spec, or null for types that aren't suggestions
+	 */
+	static forType(type: PromptType): SuggestionSpec<string | string[]> | null {
+		switch (type) {
+			case PromptType.TITLE_SUGGESTION:
+				return this.title;
+			case PromptType.ALIAS_SUGGESTION:
+				return this.aliases;
+			case PromptType.DESCRIPTION_SUGGESTION:
+				return this.description;
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Validate a response holding a single line of text
+	 *
+	 * @param value - The parsed response
+	 * @param key - The property holding the text
+	 * @param maxLength - The maximum length in characters
+	 * @returns The text on one line if valid
+	 */
+	private static validateText(
+		value: unknown,
+		key: string,
+		maxLength: number
+	): ValidationResult<string> {
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			return {
+				valid: false,
+				errors: [`Response must be an object with a \`${key}\` string`],
+			};
+		}
+
+		const text = (value as Record<string, unknown>)[key];
+		if (typeof text !== "string") {
+			return { valid: false, errors: [`\`${key}\` must be a string`] };
+		}
+
+		const singleLine = text
+			.replace(/\s+/g, " ")
+			.trim()
+			.replace(/^["']|["']$/g, "");
+		const errors: string[] = [];
+		if (singleLine.length === 0) {
+			errors.push(`\`${key}\` is empty`);
+		} else if (singleLine.length > maxLength) {
+			errors.push(
+				`\`${key}\` is ${singleLine.length} characters, it must be at most ${maxLength}`
+			);
+		}
+
+		if (errors.length > 0) {
+			return { valid: false, errors };
+		}
+		return { valid: true, value: singleLine, errors: [] };
+	}
+
+	/**
+	 * Validate a response holding a list of aliases
+	 *
+	 * @param value - The parsed response
+	 * @returns The trimmed, de-duplicated aliases if valid
+	 */
+	private static validateAliases(value: unknown): ValidationResult<string[]> {
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			return {
+				valid: false,
+				errors: ["Response must be an object with an `aliases` array"],
+			};
+		}
+
+		const aliases = (value as { aliases?: unknown }).aliases;
+		if (!Array.isArray(aliases)) {
+			return { valid: false, errors: ["`aliases` must be an array"] };
+		}
+
+		const errors: string[] = [];
+		if (aliases.length > this.maxAliases) {
+			errors.push(`\`aliases\` must contain at most ${this.maxAliases} entries`);
+		}
+		aliases.forEach((alias, index) => {
+			if (typeof alias !== "string" || alias.trim().length === 0) {
+				errors.push(`Alias ${index + 1} is not a non-empty string`);
+			} else if (alias.trim().length > this.maxAliasLength) {
+				errors.push(
+					`Alias "${alias.trim().slice(0, 20)}…" is longer than ${
+						this.maxAliasLength
+					} characters`
+				);
+			} else if (/[\n\r]/.test(alias)) {
+				errors.push(`Alias "${alias.trim()}" contains line breaks`);
+			}
+		});
+
+		if (errors.length > 0) {
+			return { valid: false, errors };
+		}
+		return {
+			valid: true,
+			value: Array.from(
+				new Set((aliases as string[]).map((alias) => alias.trim()))
+			),
+			errors: [],
+		};
+	}
+}
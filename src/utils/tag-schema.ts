@@ -0,0 +1,119 @@
+/**
+ * Result of validating a structured provider response
+ */
+export interface ValidationResult<T> {
+	valid: boolean;
+	value?: T;
+	errors: string[];
+}
+
+/**
+ * Raised when a provider's reply doesn't match the expected schema, even
+ * after being asked once to correct it
+ */
+export class InvalidOutputError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidOutputError";
+	}
+}
+
+/**
+ * Shared schema for structured tag output
+ *
+ * The JSON schema sent to providers is kept minimal so every structured
+ * output implementation accepts it (OpenAI strict mode rejects several
+ * keywords). The stricter rules are enforced locally by `validate`.
+ */
+export class TagSchema {
+	/**
+	 * Name of the tool / response format the tags are returned through
+	 */
+	static readonly toolName = "record_tags";
+
+	static readonly description =
+		"Record the tags that best describe the note.";
+
+	static readonly maxTags = 10;
+	static readonly maxTagLength = 60;
+	static readonly maxWordsPerTag = 4;
+
+	/**
+	 * JSON schema for the structured response
+	 */
+	static readonly jsonSchema = {
+		type: "object",
+		properties: {
+			tags: {
+				type: "array",
+				description: `Between 1 and ${TagSchema.maxTags} tags, lowercase, hyphens for multiple words, slashes for hierarchy`,
+				items: { type: "string" },
+			},
+		},
+		required: ["tags"],
+		additionalProperties: false,
+	};
+
+	/**
+	 * Check a parsed provider response against the tag schema
+	 *
+	 * @param value - The parsed response
+	 * @returns The tags if valid, otherwise the reasons it was rejected
+	 */
+	static validate(value: unknown): ValidationResult<string[]> {
+		const errors: string[] = [];
+
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			return {
+				valid: false,
+				errors: ["Response must be an object with a `tags` array"],
+			};
+		}
+
+		const tags = (value as { tags?: unknown }).tags;
+		if (!Array.isArray(tags)) {
+			return { valid: false, errors: ["`tags` must be an array"] };
+		}
+
+		if (tags.length === 0) {
+			errors.push("`tags` must contain at least one tag");
+		}
+		if (tags.length > this.maxTags) {
+			errors.push(`\`tags\` must contain at most ${this.maxTags} tags`);
+		}
+
+		tags.forEach((tag, index) => {
+			if (typeof tag !== "string") {
+				errors.push(`Tag ${index + 1} is not a string`);
+				return;
+			}
+
+			const trimmed = tag.trim();
+			if (trimmed.length === 0) {
+				errors.push(`Tag ${index + 1} is empty`);
+			} else if (trimmed.length > this.maxTagLength) {
+				errors.push(
+					`Tag "${trimmed.slice(0, 20)}…" is longer than ${
+						this.maxTagLength
+					} characters`
+				);
+			} else if (/[\n\r`]/.test(trimmed)) {
+				errors.push(
+					`Tag "${trimmed}" contains line breaks or markdown`
+				);
+			} else if (trimmed.split(/\s+/).length > this.maxWordsPerTag) {
+				errors.push(`Tag "${trimmed}" looks like a sentence`);
+			}
+		});
+
+		if (errors.length > 0) {
+			return { valid: false, errors };
+		}
+
+		return {
+			valid: true,
+			value: (tags as string[]).map((tag) => tag.trim()),
+			errors: [],
+		};
+	}
+}
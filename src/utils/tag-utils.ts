@@ -1,4 +1,5 @@
 import { App, TFile, getAllTags } from "obsidian";
+import { TagMergeMode, TagMergeResult } from "../types";
 
 /**
  * Utility class for managing and analyzing tags across the vault
@@ -6,6 +7,11 @@ import { App, TFile, getAllTags } from "obsidian";
 export class TagUtils {
 	private static app: App;
 
+	// Frontmatter property listing tags generation may never remove
+	static readonly LOCKED_TAGS_KEY = "locked-tags";
+	// Frontmatter property that keeps a note out of every run when false
+	static readonly OPT_OUT_KEY = "ai-tags";
+
 	/**
 	 * Initialize the tag utilities with Obsidian's App instance
 	 */
@@ -47,6 +53,44 @@ export class TagUtils {
 		return Array.from(allTags);
 	}
 
+	/**
+	 * Get the inline and frontmatter tags of a single note
+	 * @param file - The note
+	 * @returns The note's tags without the '#' prefix
+	 */
+	public static getFileTags(file: TFile): string[] {
+		const cache = this.app.metadataCache.getFileCache(file);
+		return (cache ? getAllTags(cache) || [] : []).map((tag) =>
+			tag.replace(/^#/, "")
+		);
+	}
+
+	/**
+	 * Find the first of a note's tags that is in a list
+	 *
+	 * Tags are compared without case or a leading #, and nested tags count
+	 * as their parent, so `template` also matches `template/daily`.
+	 *
+	 * @param tags - The note's tags
+	 * @param list - The tags to look for
+	 * @returns The matching tag from the list, or null
+	 */
+	public static findListedTag(tags: string[], list: string[]): string | null {
+		const normalize = (tag: string) => tag.replace(/^#/, "").toLowerCase();
+		const noteTags = tags.map(normalize);
+		return (
+			list.find((listed) => {
+				const target = normalize(listed);
+				return (
+					target.length > 0 &&
+					noteTags.some(
+						(tag) => tag === target || tag.startsWith(`${target}/`)
+					)
+				);
+			}) || null
+		);
+	}
+
 	/**
 	 * Find similar existing tags based on a given tag
 	 * Uses Levenshtein distance to find similar tags
@@ -97,4 +141,82 @@ export class TagUtils {
 
 		return matrix[b.length][a.length];
 	}
+
+	/**
+	 * Read a frontmatter tag property, which may be a list or a string
+	 * @param value - The property value
+	 * @returns The tags, without empty entries
+	 */
+	public static parseFrontmatterTags(value: unknown): string[] {
+		const items = Array.isArray(value)
+			? value
+			: typeof value === "string"
+			? value.split(/[,\s]+/)
+			: [];
+		return items
+			.map((tag) => String(tag).trim())
+			.filter((tag) => tag.length > 0);
+	}
+
+	/**
+	 * Combine generated tags with the tags a note already has
+	 *
+	 * - Replace: the generated tags take the place of the existing ones
+	 * - Append: the generated tags are added, nothing is removed
+	 * - Merge: existing tags are kept and generated ones are added, in
+	 *   order, until the note has `cap` tags
+	 *
+	 * In every mode, existing tags listed in `locked` are kept. Tags are
+	 * compared without case or a leading #.
+	 *
+	 * @param existing - The note's current tags
+	 * @param generated - The formatted generated tags, most relevant first
+	 * @param locked - Tags that may not be removed
+	 * @param mode - How to combine the tags
+	 * @param cap - Most tags a note ends up with in merge mode
+	 * @returns The new tags, and what was added and removed
+	 */
+	public static mergeTags(
+		existing: string[],
+		generated: string[],
+		locked: string[],
+		mode: TagMergeMode,
+		cap: number
+	): TagMergeResult {
+		const key = (tag: string) => tag.replace(/^#/, "").toLowerCase();
+		const lockedKeys = new Set(locked.map(key));
+		const keptExisting = existing.filter((tag) =>
+			lockedKeys.has(key(tag))
+		);
+
+		const tags: string[] = [];
+		const add = (tag: string) => {
+			if (!tags.some((item) => key(item) === key(tag))) {
+				tags.push(tag);
+			}
+		};
+
+		switch (mode) {
+			case TagMergeMode.APPEND:
+				[...existing, ...generated].forEach(add);
+				break;
+			case TagMergeMode.MERGE:
+				existing.forEach(add);
+				for (const tag of generated) {
+					if (tags.length >= cap) break;
+					add(tag);
+				}
+				break;
+			default:
+				[...keptExisting, ...generated].forEach(add);
+		}
+
+		const existingKeys = new Set(existing.map(key));
+		const tagKeys = new Set(tags.map(key));
+		return {
+			tags,
+			added: tags.filter((tag) => !existingKeys.has(key(tag))),
+			removed: existing.filter((tag) => !tagKeys.has(key(tag))),
+		};
+	}
 }
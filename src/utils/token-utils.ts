@@ -0,0 +1,21 @@
+/**
+ * Utility class for rough token counting without a tokenizer
+ */
+export class TokenUtils {
+	/**
+	 * Average characters per token for English prose across the supported
+	 * tokenizers; close enough for estimates and budgets
+	 */
+	static readonly charsPerToken = 4;
+
+	/**
+	 * Estimate the number of tokens in a piece of text
+	 *
+	 * @param text - The text to measure
+	 * @returns Approximate token count
+	 */
+	static estimate(text: string): number {
+		if (!text) return 0;
+		return Math.ceil(text.length / this.charsPerToken);
+	}
+}